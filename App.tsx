@@ -1,32 +1,355 @@
-import React, { useState } from 'react';
-import { Upload, Wand2, FileText, AlertCircle } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Upload, Wand2, FileText, AlertCircle, GitPullRequest, X, Square, FolderOpen, BookOpen, KeyRound } from 'lucide-react';
 import { CommitManager } from './components/CommitManager';
 import { DocumentationPreview } from './components/DocumentationPreview';
 import { Input, TextArea } from './components/Input';
 import { Button } from './components/Button';
-import { generateDocumentation } from './services/geminiService';
-import { Commit, GenerationConfig } from './types';
+import { ModelSettingsPanel } from './components/ModelSettingsPanel';
+import { GenerationReportPanel } from './components/GenerationReportPanel';
+import { TemplatePicker } from './components/TemplatePicker';
+import { RefinePanel } from './components/RefinePanel';
+import { WorkspaceSidebar } from './components/WorkspaceSidebar';
+import { PublishDialog } from './components/PublishDialog';
+import { WikiPageDialog } from './components/WikiPagePanel';
+import { GithubWikiDialog } from './components/GithubWikiPanel';
+import { GenerationHistoryPanel } from './components/GenerationHistoryPanel';
+import { RedactionPanel } from './components/RedactionPanel';
+import { BackendSettingsPanel } from './components/BackendSettingsPanel';
+import { CredentialVault } from './components/CredentialVault';
+import { ToastContainer } from './components/ToastContainer';
+import { generateDocumentation, refineDocumentation } from './services/documentationService';
+import { defaultModelSettings } from './services/llmRegistry';
+import { BackendConfig, loadBackendConfig, saveBackendConfig } from './services/backendService';
+import { ProviderCredentials } from './services/commitProviders';
+import { VaultSession } from './services/vaultService';
+import { errorTitle } from './services/errors';
+import { WikiPage, WikiPageRef } from './services/azureWikiService';
+import { GithubWikiPage, GithubWikiPageRef } from './services/githubWikiService';
+import { compareSections, mergeSections } from './utils/markdownSections';
+import { downloadBlob } from './services/exportService';
+import { deleteRun, deleteRunsForWorkspace, listRuns, saveRun } from './services/historyService';
+import { createWorkspace, deleteWorkspace, exportWorkspace, listWorkspaces, parseWorkspaceFile, saveWorkspace } from './services/workspaceService';
+import { RedactionDecision, getActiveRules, loadRedactionSettings, redactCommits, saveRedactionSettings, scanCommits } from './services/redactionService';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, loadCustomTemplates, saveCustomTemplates } from './services/templateService';
+import { Commit, DocTemplate, DocVersion, GenerationConfig, GenerationReport, GenerationRun, ModelSettings, PullRequestContext, RedactionSettings, StoredCredential, ToastMessage, Workspace } from './types';
 
 const App: React.FC = () => {
   // State
   const [commits, setCommits] = useState<Commit[]>([]);
   const [generatedDoc, setGeneratedDoc] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [generationStatus, setGenerationStatus] = useState('');
+  const [generationReport, setGenerationReport] = useState<GenerationReport | null>(null);
+  // The uploaded document the current output updates, and the sections whose update was rejected
+  const [reviewBase, setReviewBase] = useState<string | null>(null);
+  const [rejectedSections, setRejectedSections] = useState<Set<string>>(new Set());
+  const [versions, setVersions] = useState<DocVersion[]>([]);
+  const [versionIndex, setVersionIndex] = useState(-1);
   
   // Configuration State
   const [extraInfo, setExtraInfo] = useState('');
   const [setupInstructions, setSetupInstructions] = useState('');
   const [previousDocContent, setPreviousDocContent] = useState<string | null>(null);
   const [previousDocName, setPreviousDocName] = useState<string>('');
+  const [pullRequests, setPullRequests] = useState<PullRequestContext[]>([]);
+  // Host tokens, keyed by commit provider id; shared by fetching and publishing
+  const [credentials, setCredentials] = useState<Record<string, ProviderCredentials>>({});
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [wikiTarget, setWikiTarget] = useState<WikiPageRef | null>(null);
+  const [isWikiLoadOpen, setIsWikiLoadOpen] = useState(false);
+  const [githubWikiTarget, setGithubWikiTarget] = useState<GithubWikiPageRef | null>(null);
+  const [isGithubWikiLoadOpen, setIsGithubWikiLoadOpen] = useState(false);
+  // The vault stays unlocked until the page is closed or it is locked
+  const [vaultSession, setVaultSession] = useState<VaultSession | null>(null);
+  const [vaultCredentials, setVaultCredentials] = useState<StoredCredential[]>([]);
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
+  const [toasts, setToasts] = useState<ToastMessage[]>([]);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => defaultModelSettings());
+  const [backendConfig, setBackendConfig] = useState<BackendConfig>(loadBackendConfig);
+  const [customTemplates, setCustomTemplates] = useState<DocTemplate[]>(loadCustomTemplates);
+  const [selectedTemplateId, setSelectedTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
+  const [redactionDecisions, setRedactionDecisions] = useState<Record<string, RedactionDecision>>({});
+
+  // Workspace State
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  const [isWorkspaceListOpen, setIsWorkspaceListOpen] = useState(false);
+  const [runs, setRuns] = useState<GenerationRun[]>([]);
+  // Serialised content of the last save, so loading a workspace does not re-save it
+  const lastSavedRef = useRef('');
+
+  const templates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || BUILT_IN_TEMPLATES[0];
+
+  const sectionChanges = useMemo(
+    () => (reviewBase && generatedDoc && !isGenerating ? compareSections(reviewBase, generatedDoc) : null),
+    [reviewBase, generatedDoc, isGenerating]
+  );
+  const reviewedDoc = sectionChanges ? mergeSections(sectionChanges, rejectedSections) : generatedDoc;
+
+  const redactionFindings = useMemo(
+    () => scanCommits(commits, getActiveRules(redactionSettings)),
+    [commits, redactionSettings]
+  );
+  const isBlockedByRedaction = redactionSettings.blockUnreviewed && redactionFindings.some(f => !redactionDecisions[f.key]);
+  // What actually goes into prompts
+  const redactedCommits = useMemo(
+    () => redactCommits(commits, redactionFindings, redactionDecisions),
+    [commits, redactionFindings, redactionDecisions]
+  );
+
+  const applyWorkspace = (workspace: Workspace) => {
+    setWorkspaceId(workspace.id);
+    setCommits(workspace.commits);
+    setPullRequests(workspace.pullRequests);
+    setExtraInfo(workspace.extraInfo);
+    setSetupInstructions(workspace.setupInstructions);
+    setPreviousDocContent(workspace.previousDocContent);
+    setPreviousDocName(workspace.previousDocName);
+    setSelectedTemplateId(workspace.templateId || DEFAULT_TEMPLATE_ID);
+    setGeneratedDoc(workspace.generatedDoc);
+    setVersions(workspace.versions);
+    setVersionIndex(workspace.versions.length - 1);
+    setGenerationReport(null);
+    setReviewBase(null);
+    setRejectedSections(new Set());
+  };
+
+  // Open the most recent workspace, creating the first one on a fresh install
+  useEffect(() => {
+    listWorkspaces()
+      .then(async (stored) => {
+        if (stored.length === 0) {
+          const workspace = createWorkspace('Untitled workspace');
+          await saveWorkspace(workspace);
+          stored = [workspace];
+        }
+        setWorkspaces(stored);
+        openWorkspace(stored[0]);
+      })
+      .catch(() => setWorkspaceError("Workspaces are unavailable in this browser; changes will not be saved."));
+  }, []);
+
+  // Save the current workspace shortly after the last change
+  useEffect(() => {
+    const current = workspaces.find(w => w.id === workspaceId);
+    if (!current || isGenerating) return;
+
+    const content = {
+      commits,
+      pullRequests,
+      extraInfo,
+      setupInstructions,
+      previousDocContent,
+      previousDocName,
+      templateId: selectedTemplateId,
+      generatedDoc: reviewedDoc,
+      versions
+    };
+    const serialised = JSON.stringify(content);
+    if (serialised === lastSavedRef.current) return;
+
+    const timer = setTimeout(() => {
+      const updated: Workspace = { ...current, ...content, updatedAt: new Date().toISOString() };
+      saveWorkspace(updated)
+        .then(() => {
+          lastSavedRef.current = serialised;
+          setWorkspaces(prev => [updated, ...prev.filter(w => w.id !== updated.id)]);
+        })
+        .catch(() => setWorkspaceError("Could not save the workspace."));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [workspaceId, commits, pullRequests, extraInfo, setupInstructions, previousDocContent, previousDocName, selectedTemplateId, reviewedDoc, versions, isGenerating]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    listRuns(workspaceId)
+      .then(setRuns)
+      .catch(() => setRuns([]));
+  }, [workspaceId]);
+
+  const openWorkspace = (workspace: Workspace) => {
+    lastSavedRef.current = JSON.stringify({
+      commits: workspace.commits,
+      pullRequests: workspace.pullRequests,
+      extraInfo: workspace.extraInfo,
+      setupInstructions: workspace.setupInstructions,
+      previousDocContent: workspace.previousDocContent,
+      previousDocName: workspace.previousDocName,
+      templateId: workspace.templateId || DEFAULT_TEMPLATE_ID,
+      generatedDoc: workspace.generatedDoc,
+      versions: workspace.versions
+    });
+    applyWorkspace(workspace);
+    setIsWorkspaceListOpen(false);
+  };
+
+  const handleSelectWorkspace = (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!workspace || isGenerating) return;
+    openWorkspace(workspace);
+  };
+
+  const handleCreateWorkspace = async () => {
+    if (isGenerating) return;
+    const workspace = createWorkspace(`Workspace ${workspaces.length + 1}`);
+    try {
+      await saveWorkspace(workspace);
+      setWorkspaces(prev => [workspace, ...prev]);
+      openWorkspace(workspace);
+    } catch {
+      setWorkspaceError("Could not create the workspace.");
+    }
+  };
+
+  const handleRenameWorkspace = async (id: string, name: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!workspace) return;
+    const renamed = { ...workspace, name };
+    try {
+      await saveWorkspace(renamed);
+      setWorkspaces(prev => prev.map(w => (w.id === id ? renamed : w)));
+    } catch {
+      setWorkspaceError("Could not rename the workspace.");
+    }
+  };
+
+  const handleDeleteWorkspace = async (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!workspace || isGenerating || !window.confirm(`Delete workspace "${workspace.name}"?`)) return;
+    try {
+      await deleteWorkspace(id);
+      await deleteRunsForWorkspace(id);
+      const remaining = workspaces.filter(w => w.id !== id);
+      if (remaining.length === 0) {
+        const fresh = createWorkspace('Untitled workspace');
+        await saveWorkspace(fresh);
+        remaining.push(fresh);
+      }
+      setWorkspaces(remaining);
+      if (id === workspaceId) openWorkspace(remaining[0]);
+    } catch {
+      setWorkspaceError("Could not delete the workspace.");
+    }
+  };
+
+  const handleExportWorkspace = (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!workspace) return;
+    downloadBlob(
+      new Blob([exportWorkspace(workspace)], { type: 'application/json' }),
+      `${workspace.name.replace(/[^\w-]+/g, '-').toLowerCase()}.commit2doc.json`
+    );
+  };
+
+  const handleImportWorkspace = async (file: File) => {
+    if (isGenerating) return;
+    setWorkspaceError(null);
+    try {
+      const workspace = parseWorkspaceFile(await file.text());
+      await saveWorkspace(workspace);
+      setWorkspaces(prev => [workspace, ...prev]);
+      openWorkspace(workspace);
+    } catch (error: any) {
+      setWorkspaceError(error.message || "Could not import the workspace.");
+    }
+  };
+
+  const handleToggleSection = (key: string) => {
+    setRejectedSections(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleSetAllSections = (accept: boolean) => {
+    setRejectedSections(accept || !sectionChanges ? new Set() : new Set(sectionChanges.map(c => c.key)));
+  };
+
+  // Edits start from the reviewed text, which then becomes the document
+  const handleEditDoc = (markdown: string) => {
+    setReviewBase(null);
+    setGeneratedDoc(markdown);
+  };
+
+  const handleCredentialsChange = (providerId: string, changes: ProviderCredentials) => {
+    setCredentials(prev => ({ ...prev, [providerId]: changes }));
+  };
+
+  const showToast = (toast: Omit<ToastMessage, 'id'>) => {
+    setToasts(prev => [...prev, { id: crypto.randomUUID(), ...toast }]);
+  };
+
+  const showError = (error: any) => {
+    showToast({ type: 'error', title: errorTitle(error), text: error?.message || String(error) });
+  };
+
+  const dismissToast = (id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  };
+
+  const handleVaultUnlock = (session: VaultSession, stored: StoredCredential[]) => {
+    setVaultSession(session);
+    setVaultCredentials(stored);
+  };
+
+  const handleVaultLock = () => {
+    setVaultSession(null);
+    setVaultCredentials([]);
+  };
 
   const handleAddCommit = (commit: Commit) => {
     setCommits(prev => [...prev, commit]);
   };
 
+  const handleAddCommits = (newCommits: Commit[]) => {
+    setCommits(prev => [...prev, ...newCommits]);
+  };
+
   const handleRemoveCommit = (id: string) => {
     setCommits(prev => prev.filter(c => c.id !== id));
   };
 
+  const handleAddPullRequest = (pr: PullRequestContext) => {
+    setPullRequests(prev => [...prev.filter(p => !(p.id === pr.id && p.source === pr.source)), pr]);
+  };
+
+  const handleRemovePullRequest = (pr: PullRequestContext) => {
+    setPullRequests(prev => prev.filter(p => !(p.id === pr.id && p.source === pr.source)));
+  };
+
+  const handleBackendConfigChange = (config: BackendConfig) => {
+    setBackendConfig(config);
+    saveBackendConfig(config);
+  };
+
+  const handleRedactionSettingsChange = (settings: RedactionSettings) => {
+    setRedactionSettings(settings);
+    saveRedactionSettings(settings);
+  };
+
+  const handleRedactionDecision = (keys: string[], decision: RedactionDecision) => {
+    setRedactionDecisions(prev => ({ ...prev, ...Object.fromEntries(keys.map(key => [key, decision])) }));
+  };
+
+  const handleSaveTemplate = (template: DocTemplate) => {
+    const updated = [...customTemplates.filter(t => t.id !== template.id), template];
+    setCustomTemplates(updated);
+    saveCustomTemplates(updated);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    const updated = customTemplates.filter(t => t.id !== id);
+    setCustomTemplates(updated);
+    saveCustomTemplates(updated);
+    setSelectedTemplateId(DEFAULT_TEMPLATE_ID);
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -40,30 +363,185 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  // The page's current content becomes the document to update
+  const handleWikiPageLoaded = (page: WikiPage, target: WikiPageRef) => {
+    setWikiTarget(target);
+    if (!page.content) return;
+    setPreviousDocContent(page.content);
+    setPreviousDocName(`${target.wiki.name}${target.path}`);
+    setIsWikiLoadOpen(false);
+  };
+
+  const handleGithubWikiPageLoaded = (page: GithubWikiPage, target: GithubWikiPageRef) => {
+    setGithubWikiTarget(target);
+    if (!page.content) return;
+    setPreviousDocContent(page.content);
+    setPreviousDocName(`${target.page} (GitHub wiki)`);
+    setIsGithubWikiLoadOpen(false);
+  };
+
   const clearPreviousDoc = () => {
     setPreviousDocContent(null);
     setPreviousDocName('');
   };
 
+  const buildConfig = (): GenerationConfig => ({
+    extraInfo,
+    setupInstructions,
+    previousDocContent,
+    pullRequests,
+    template: selectedTemplate
+  });
+
+  const appendVersion = (list: DocVersion[], markdown: string, label: string): DocVersion[] => [
+    ...list,
+    { id: crypto.randomUUID(), markdown, label, createdAt: new Date().toISOString() }
+  ];
+
+  const showVersions = (list: DocVersion[]) => {
+    setVersions(list);
+    setVersionIndex(list.length - 1);
+  };
+
   const handleGenerate = async () => {
-    if (commits.length === 0) return;
+    if (commits.length === 0 || isBlockedByRedaction) return;
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const shownDoc = reviewedDoc;
+    const shownReport = generationReport;
+
     setIsGenerating(true);
+    setGeneratedDoc('');
+    setGenerationReport(null);
+    setReviewBase(previousDocContent);
+    setRejectedSections(new Set());
     try {
-      const config: GenerationConfig = {
-        extraInfo,
-        setupInstructions,
-        previousDocContent
-      };
-      const markdown = await generateDocumentation(commits, config);
+      const config = buildConfig();
+      const { markdown, report } = await generateDocumentation(redactedCommits, config, modelSettings, {
+        signal: controller.signal,
+        onProgress: setGeneratedDoc,
+        onStatus: setGenerationStatus
+      });
+      if (!markdown) {
+        // Cancelled before anything streamed, e.g. while commits were summarised
+        setReviewBase(null);
+        setGeneratedDoc(shownDoc);
+        setGenerationReport(shownReport);
+        return;
+      }
       setGeneratedDoc(markdown);
+      setGenerationReport(report);
+      showVersions(appendVersion(versions, markdown, `Generated (${selectedTemplate.name})`));
+      recordRun(config, markdown, report, controller.signal.aborted);
     } catch (error) {
       console.error("Failed to generate docs", error);
+      // Whatever streamed before the failure is not a usable document
+      setReviewBase(null);
+      setGeneratedDoc(shownDoc);
+      showError(error);
     } finally {
+      abortControllerRef.current = null;
+      setGenerationStatus('');
       setIsGenerating(false);
     }
   };
 
+  const recordRun = (config: GenerationConfig, markdown: string, report: GenerationReport | null, cancelled: boolean) => {
+    if (!workspaceId) return;
+    const { apiKey, ...model } = modelSettings;
+    const run: GenerationRun = {
+      id: crypto.randomUUID(),
+      workspaceId,
+      createdAt: new Date().toISOString(),
+      commitHashes: commits.map(c => c.hash),
+      pullRequestIds: config.pullRequests.map(pr => pr.id),
+      templateId: config.template.id,
+      templateName: config.template.name,
+      extraInfo: config.extraInfo,
+      setupInstructions: config.setupInstructions,
+      previousDocName: config.previousDocContent ? previousDocName : '',
+      model,
+      markdown,
+      report,
+      cancelled
+    };
+    setRuns(prev => [run, ...prev]);
+    saveRun(run).catch(() => setWorkspaceError("Could not save the generation history."));
+  };
+
+  // Brings back a run's output together with the settings that produced it
+  const handleRestoreRun = (run: GenerationRun) => {
+    if (isGenerating) return;
+    setReviewBase(null);
+    setGeneratedDoc(run.markdown);
+    setGenerationReport(run.report);
+    setExtraInfo(run.extraInfo);
+    setSetupInstructions(run.setupInstructions);
+    if (templates.some(t => t.id === run.templateId)) setSelectedTemplateId(run.templateId);
+    setModelSettings(prev => ({ ...run.model, apiKey: prev.provider === run.model.provider ? prev.apiKey : '' }));
+    showVersions(appendVersion(versions, run.markdown, `Restored run from ${new Date(run.createdAt).toLocaleString()}`));
+  };
+
+  const handleDeleteRun = (id: string) => {
+    setRuns(prev => prev.filter(r => r.id !== id));
+    deleteRun(id).catch(() => setWorkspaceError("Could not delete the run."));
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (isBlockedByRedaction) return;
+    const base = reviewedDoc;
+    // Keep review decisions and manual edits as a version of their own
+    let history = versions;
+    if (base !== versions[versionIndex]?.markdown) {
+      history = appendVersion(history, base, 'Edited');
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsGenerating(true);
+    setReviewBase(null);
+    setGeneratedDoc('');
+    try {
+      const { markdown, report } = await refineDocumentation(base, instruction, redactedCommits, buildConfig(), modelSettings, {
+        signal: controller.signal,
+        onProgress: setGeneratedDoc,
+        onStatus: setGenerationStatus
+      });
+      // A cancelled refinement leaves the document as it was
+      if (controller.signal.aborted || !markdown) {
+        setGeneratedDoc(base);
+      } else {
+        setGeneratedDoc(markdown);
+        setGenerationReport(report);
+        history = appendVersion(history, markdown, instruction);
+      }
+      showVersions(history);
+    } catch (error) {
+      console.error("Failed to refine docs", error);
+      setGeneratedDoc(base);
+      showError(error);
+    } finally {
+      abortControllerRef.current = null;
+      setGenerationStatus('');
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSelectVersion = (index: number) => {
+    const version = versions[index];
+    if (!version) return;
+    setReviewBase(null);
+    setGeneratedDoc(version.markdown);
+    setVersionIndex(index);
+  };
+
+  // Stops the request; a cancelled generation keeps the text streamed so far
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans selection:bg-primary-500/30">
       
@@ -78,12 +556,95 @@ const App: React.FC = () => {
               Commit<span className="text-primary-500">2</span>Doc
             </h1>
           </div>
-          <div className="text-xs text-gray-500 font-mono border border-gray-800 px-2 py-1 rounded">
-            v1.0.0 • Gemini Powered
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setIsVaultOpen(true)}
+              className="flex items-center text-sm text-gray-300 hover:text-white border border-gray-800 hover:border-gray-700 px-3 py-1 rounded"
+            >
+              <KeyRound className={`w-4 h-4 mr-2 ${vaultSession ? 'text-green-400' : 'text-primary-500'}`} />
+              Credentials
+            </button>
+            <button
+              onClick={() => setIsWorkspaceListOpen(true)}
+              className="flex items-center text-sm text-gray-300 hover:text-white border border-gray-800 hover:border-gray-700 px-3 py-1 rounded"
+            >
+              <FolderOpen className="w-4 h-4 mr-2 text-primary-500" />
+              <span className="max-w-[12rem] truncate">{workspaces.find(w => w.id === workspaceId)?.name || 'Workspaces'}</span>
+            </button>
+            <div className="text-xs text-gray-500 font-mono border border-gray-800 px-2 py-1 rounded">
+              v1.0.0 • {modelSettings.model || 'No model selected'}
+            </div>
           </div>
         </div>
       </header>
 
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+
+      {isVaultOpen && (
+        <CredentialVault
+          session={vaultSession}
+          credentials={vaultCredentials}
+          onUnlock={handleVaultUnlock}
+          onChange={setVaultCredentials}
+          onLock={handleVaultLock}
+          onClose={() => setIsVaultOpen(false)}
+        />
+      )}
+
+      {isPublishOpen && (
+        <PublishDialog
+          markdown={reviewedDoc}
+          commits={commits}
+          pullRequests={pullRequests}
+          credentials={credentials}
+          onCredentialsChange={handleCredentialsChange}
+          storedCredentials={vaultCredentials}
+          wikiTarget={wikiTarget}
+          onWikiSaved={setWikiTarget}
+          githubWikiTarget={githubWikiTarget}
+          onGithubWikiSaved={setGithubWikiTarget}
+          onClose={() => setIsPublishOpen(false)}
+        />
+      )}
+
+      {isWikiLoadOpen && (
+        <WikiPageDialog
+          mode="load"
+          target={wikiTarget}
+          credentials={credentials}
+          onCredentialsChange={handleCredentialsChange}
+          storedCredentials={vaultCredentials}
+          onLoaded={handleWikiPageLoaded}
+          onClose={() => setIsWikiLoadOpen(false)}
+        />
+      )}
+
+      {isGithubWikiLoadOpen && (
+        <GithubWikiDialog
+          mode="load"
+          target={githubWikiTarget}
+          credentials={credentials}
+          onCredentialsChange={handleCredentialsChange}
+          storedCredentials={vaultCredentials}
+          onLoaded={handleGithubWikiPageLoaded}
+          onClose={() => setIsGithubWikiLoadOpen(false)}
+        />
+      )}
+
+      <WorkspaceSidebar
+        isOpen={isWorkspaceListOpen}
+        workspaces={workspaces}
+        currentId={workspaceId}
+        error={workspaceError}
+        onClose={() => setIsWorkspaceListOpen(false)}
+        onSelect={handleSelectWorkspace}
+        onCreate={handleCreateWorkspace}
+        onRename={handleRenameWorkspace}
+        onDelete={handleDeleteWorkspace}
+        onExport={handleExportWorkspace}
+        onImport={handleImportWorkspace}
+      />
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
@@ -95,10 +656,31 @@ const App: React.FC = () => {
               <CommitManager 
                 commits={commits} 
                 onAddCommit={handleAddCommit} 
+                onAddCommits={handleAddCommits}
+                onAddPullRequest={handleAddPullRequest}
                 onRemoveCommit={handleRemoveCommit} 
+                credentials={credentials}
+                onCredentialsChange={handleCredentialsChange}
+                storedCredentials={vaultCredentials}
+                onError={showError}
+                onNotice={(text) => showToast({ type: 'info', text })}
               />
             </section>
 
+            {commits.length > 0 && (
+              <section className="space-y-5">
+                <h3 className="text-lg font-semibold text-gray-200">Sensitive Data</h3>
+                <RedactionPanel
+                  commits={commits}
+                  findings={redactionFindings}
+                  decisions={redactionDecisions}
+                  onDecide={handleRedactionDecision}
+                  settings={redactionSettings}
+                  onSettingsChange={handleRedactionSettingsChange}
+                />
+              </section>
+            )}
+
             <div className="border-t border-gray-800 my-6"></div>
 
             {/* Section 2: Context */}
@@ -106,6 +688,14 @@ const App: React.FC = () => {
               <h3 className="text-lg font-semibold text-gray-200">Documentation Context</h3>
               
               <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 space-y-4">
+                <TemplatePicker
+                  templates={templates}
+                  selectedId={selectedTemplate.id}
+                  onSelect={setSelectedTemplateId}
+                  onSave={handleSaveTemplate}
+                  onDelete={handleDeleteTemplate}
+                />
+
                 {/* File Upload */}
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -122,6 +712,20 @@ const App: React.FC = () => {
                           <input id="dropzone-file" type="file" className="hidden" accept=".md,.txt" onChange={handleFileUpload} />
                         </label>
                       </div>
+                      <button
+                        onClick={() => setIsWikiLoadOpen(true)}
+                        className="mt-2 flex items-center text-xs text-gray-400 hover:text-primary-400"
+                      >
+                        <BookOpen className="w-3.5 h-3.5 mr-1" />
+                        Or load a page from an Azure DevOps wiki
+                      </button>
+                      <button
+                        onClick={() => setIsGithubWikiLoadOpen(true)}
+                        className="mt-1 flex items-center text-xs text-gray-400 hover:text-primary-400"
+                      >
+                        <BookOpen className="w-3.5 h-3.5 mr-1" />
+                        Or load a page from a GitHub wiki
+                      </button>
                     </div>
                   ) : (
                     <div className="flex items-center justify-between p-3 bg-indigo-900/20 border border-indigo-500/30 rounded-lg">
@@ -136,6 +740,27 @@ const App: React.FC = () => {
                   )}
                 </div>
 
+                {pullRequests.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Pull Requests
+                    </label>
+                    <ul className="space-y-2">
+                      {pullRequests.map(pr => (
+                        <li key={`${pr.source}-${pr.id}`} className="flex items-center justify-between p-3 bg-gray-900/40 border border-gray-700 rounded-lg">
+                          <div className="flex items-center overflow-hidden">
+                            <GitPullRequest className="w-4 h-4 text-primary-400 mr-2 flex-shrink-0" />
+                            <span className="text-sm text-gray-200 truncate">!{pr.id} {pr.title}</span>
+                          </div>
+                          <button onClick={() => handleRemovePullRequest(pr)} className="text-gray-400 hover:text-red-400 ml-2">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <TextArea 
                   label="Additional Context" 
                   placeholder="Explain rationale, hidden logic, or business value..." 
@@ -154,24 +779,84 @@ const App: React.FC = () => {
               </div>
             </section>
 
+            {/* Section 3: Model */}
+            <section className="space-y-5">
+              <h3 className="text-lg font-semibold text-gray-200">Model</h3>
+              <ModelSettingsPanel
+                settings={modelSettings}
+                onChange={setModelSettings}
+                usesBackend={backendConfig.url.trim() !== ''}
+              />
+            </section>
+
+            <section className="space-y-5">
+              <h3 className="text-lg font-semibold text-gray-200">Backend</h3>
+              <BackendSettingsPanel config={backendConfig} onChange={handleBackendConfigChange} />
+            </section>
+
             {/* Generate Button (Mobile Sticky) */}
-            <div className="sticky bottom-4 z-30">
+            <div className="sticky bottom-4 z-30 flex space-x-3">
               <Button 
                 size="lg" 
-                className="w-full shadow-xl shadow-primary-900/20 py-4 text-lg"
+                className="flex-1 shadow-xl shadow-primary-900/20 py-4 text-lg"
                 onClick={handleGenerate}
-                disabled={commits.length === 0}
+                disabled={commits.length === 0 || isBlockedByRedaction}
                 isLoading={isGenerating}
                 icon={<Wand2 className="w-5 h-5" />}
               >
-                {isGenerating ? 'Generating Docs...' : 'Generate Documentation'}
+                {isGenerating ? `${generationStatus || 'Generating Docs'}...` : 'Generate Documentation'}
               </Button>
+              {isGenerating && (
+                <Button
+                  size="lg"
+                  variant="danger"
+                  className="shadow-xl py-4"
+                  onClick={handleCancel}
+                  icon={<Square className="w-4 h-4" />}
+                >
+                  Cancel
+                </Button>
+              )}
             </div>
+
+            {isBlockedByRedaction && !isGenerating && (
+              <p className="text-sm text-yellow-400">Review the findings under Sensitive Data before generating.</p>
+            )}
+
+            {generationReport && <GenerationReportPanel report={generationReport} />}
+
+            {/* Section 4: History */}
+            <section className="space-y-5">
+              <h3 className="text-lg font-semibold text-gray-200">History</h3>
+              <GenerationHistoryPanel runs={runs} onRestore={handleRestoreRun} onDelete={handleDeleteRun} />
+            </section>
           </div>
 
           {/* Right Column: Preview (7 cols) */}
-          <div className="lg:col-span-7 h-[800px] lg:h-[calc(100vh-8rem)] sticky top-24">
-            <DocumentationPreview markdown={generatedDoc} />
+          <div className="lg:col-span-7 h-[800px] lg:h-[calc(100vh-8rem)] sticky top-24 flex flex-col space-y-3">
+            <div className="flex-1 min-h-0">
+              <DocumentationPreview
+                markdown={reviewedDoc}
+                isStreaming={isGenerating}
+                onChange={handleEditDoc}
+                onPublish={() => setIsPublishOpen(true)}
+                review={sectionChanges ? {
+                  changes: sectionChanges,
+                  rejected: rejectedSections,
+                  onToggle: handleToggleSection,
+                  onSetAll: handleSetAllSections
+                } : undefined}
+              />
+            </div>
+            {versions.length > 0 && (
+              <RefinePanel
+                versions={versions}
+                currentIndex={versionIndex}
+                isBusy={isGenerating || isBlockedByRedaction}
+                onSelectVersion={handleSelectVersion}
+                onRefine={handleRefine}
+              />
+            )}
           </div>
 
         </div>
@@ -0,0 +1,223 @@
+// Headless entry point for CI pipelines: fetches commits from a host, writes
+// the documentation with the configured model and saves it to a file.
+//
+//   npm run cli -- --repo https://github.com/owner/repo --range v1.2.0..v1.3.0 \
+//     --template changelog --output CHANGELOG-1.3.0.md
+//
+// Host tokens and model API keys are read from the environment (see --help).
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { Commit, DocTemplate, LlmProviderId, PullRequestContext } from './types';
+import { FetchModeId, ProviderCredentials, resolveRepo } from './services/commitProviders';
+import { commitProviders, getCommitProvider } from './services/providerRegistry';
+import { defaultModelSettings, llmProviders } from './services/llmRegistry';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, createEmptyTemplate } from './services/templateService';
+import { generateDocumentation } from './services/documentationService';
+import { BUILT_IN_RULES, redactCommits, scanCommits } from './services/redactionService';
+import { readCommit, readRange } from './server/localGit';
+import { HOST_TOKEN_ENV, HOST_URL_ENV, MODEL_KEY_ENV, MODEL_URL_ENV, hostCredentialsFromEnv } from './server/environment';
+
+const USAGE = `Usage: npm run cli -- --repo <url> (--commit <sha> | --range <base..head> | --branch <name> | --pr <id> | --uncommitted) [options]
+
+Source:
+  --repo <url|path>        Repository URL, or the path of a local repository
+  --host <id>              ${commitProviders.map(p => p.id).join(' | ')} (detected from the URL when omitted)
+  --host-url <url>         API/collection base URL for self-hosted instances (default: from the environment)
+  --commit <sha>           A single commit (repeatable)
+  --range <base..head>     Commits between two refs
+  --branch <name>          Commits on a branch that are not on the default branch
+  --pr <id>                Commits of a pull request (its title and description are used as context)
+  --uncommitted            Uncommitted changes of a local repository
+
+Document:
+  --template <id>          ${BUILT_IN_TEMPLATES.map(t => t.id).join(' | ')} (default: ${DEFAULT_TEMPLATE_ID})
+  --template-file <path>   A template exported as JSON; overrides --template
+  --previous <path>        Existing document to update instead of writing a new one
+  --context <text>         Additional context for the writer
+  --setup <text>           Setup / usage instructions to include
+  --output <path>          Where to write the Markdown (default: DOCUMENTATION.md)
+  --block-secrets          Fail instead of masking when commits contain secrets or personal data
+
+Model:
+  --model-provider <id>    ${llmProviders.map(p => p.id).join(' | ')} (default: gemini)
+  --model <name>           Model name (default: the provider's default)
+  --model-url <url>        Base URL for HTTP backends, e.g. a local Ollama server (default: from the environment)
+  --temperature <number>   Sampling temperature
+  --context-tokens <n>     Input token budget before commits are summarised
+
+Environment:
+  ${Object.entries(HOST_TOKEN_ENV).map(([id, name]) => `${name} (${id})`).join(', ')}
+  ${Object.entries(MODEL_KEY_ENV).map(([id, name]) => `${name} (${id})`).join(', ')}
+  ${[...Object.values(HOST_URL_ENV), ...Object.values(MODEL_URL_ENV)].join(', ')}
+`;
+
+const fail = (message: string): never => {
+  console.error(`commit2doc: ${message}`);
+  process.exit(1);
+};
+
+const detectHost = (repoUrl: string) => {
+  if (!/^https?:\/\//.test(repoUrl)) return 'local';
+  if (/github\.com/.test(repoUrl)) return 'github';
+  if (/dev\.azure\.com|visualstudio\.com/.test(repoUrl)) return 'azure';
+  if (/gitlab/.test(repoUrl)) return 'gitlab';
+  if (/bitbucket\.org/.test(repoUrl)) {
+    fail('Bitbucket Cloud (bitbucket.org) is not supported; the bitbucket host covers Bitbucket Server and Data Center');
+  }
+  if (/bitbucket|\/projects\/[^/]+\/repos\/|\/scm\//.test(repoUrl)) return 'bitbucket';
+  return undefined;
+};
+
+const TEMPLATE_TEXT_FIELDS = ['name', 'description', 'tone', 'instructions'] as const;
+
+// Checked before any commits are fetched, so a broken template fails fast
+const readTemplateFile = (templateFile: string): DocTemplate => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(templateFile, 'utf8'));
+  } catch (error: any) {
+    return fail(`Cannot read template file '${templateFile}': ${error.message}`);
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    fail(`Template file '${templateFile}' must contain a JSON object`);
+  }
+  if (!Array.isArray(parsed.sections) || parsed.sections.length === 0 || !parsed.sections.every((s: unknown) => typeof s === 'string')) {
+    fail(`Template file '${templateFile}' needs "sections", a non-empty list of section names`);
+  }
+  const invalid = TEMPLATE_TEXT_FIELDS.filter(field => parsed[field] !== undefined && typeof parsed[field] !== 'string');
+  if (invalid.length > 0) {
+    fail(`Template file '${templateFile}' has non-text values for: ${invalid.join(', ')}`);
+  }
+  return { ...createEmptyTemplate(), ...parsed, builtIn: false };
+};
+
+const loadTemplate = (templateId: string | undefined, templateFile: string | undefined): DocTemplate => {
+  if (templateFile) {
+    return readTemplateFile(templateFile);
+  }
+  const id = templateId || DEFAULT_TEMPLATE_ID;
+  return BUILT_IN_TEMPLATES.find(t => t.id === id) || fail(`Unknown template '${id}'`);
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      repo: { type: 'string' },
+      host: { type: 'string' },
+      'host-url': { type: 'string' },
+      commit: { type: 'string', multiple: true },
+      range: { type: 'string' },
+      branch: { type: 'string' },
+      pr: { type: 'string' },
+      uncommitted: { type: 'boolean' },
+      template: { type: 'string' },
+      'template-file': { type: 'string' },
+      previous: { type: 'string' },
+      context: { type: 'string' },
+      setup: { type: 'string' },
+      output: { type: 'string' },
+      'block-secrets': { type: 'boolean' },
+      'model-provider': { type: 'string' },
+      model: { type: 'string' },
+      'model-url': { type: 'string' },
+      temperature: { type: 'string' },
+      'context-tokens': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!values.repo) fail(`--repo is required\n\n${USAGE}`);
+  const template = loadTemplate(values.template, values['template-file']);
+
+  const hostId = values.host || detectHost(values.repo!) || fail('Cannot detect the host from the URL; pass --host');
+  const provider = getCommitProvider(hostId) || fail(`Unknown host '${hostId}'`);
+  const isLocal = provider.id === 'local';
+  const fromEnv = hostCredentialsFromEnv(provider.id);
+  const credentials: ProviderCredentials = { ...fromEnv, baseUrl: values['host-url'] || fromEnv.baseUrl };
+  if (!isLocal && provider.token.requiredMessage && !credentials.token) {
+    fail(`${provider.token.requiredMessage}. Set ${HOST_TOKEN_ENV[provider.id]}.`);
+  }
+
+  const ranges: [FetchModeId, string | undefined][] = [
+    ['range', values.range],
+    ['branch', values.branch],
+    ['pr', values.pr],
+    ['working', values.uncommitted ? '' : undefined]
+  ];
+  const selected = ranges.filter(([, ref]) => ref !== undefined);
+  if (selected.length + (values.commit ? 1 : 0) !== 1) {
+    fail('Pass exactly one of --commit, --range, --branch, --pr or --uncommitted');
+  }
+
+  // The CLI runs git itself; the helper process is only needed by the browser
+  const repoPath = resolve(values.repo!);
+  const repo = isLocal ? null : resolveRepo(provider, values.repo!, credentials);
+  const commits: Commit[] = [];
+  const pullRequests: PullRequestContext[] = [];
+
+  if (values.commit) {
+    for (const hash of values.commit) {
+      console.error(`Fetching commit ${hash}...`);
+      commits.push(isLocal ? await readCommit(repoPath, hash) : await provider.fetchCommit(repo, hash, credentials));
+    }
+  } else {
+    const [mode, ref] = selected[0];
+    if (!provider.fetchRange || !provider.fetchModes.some(m => m.id === mode)) {
+      fail(`${provider.label} does not support --${mode === 'working' ? 'uncommitted' : mode}`);
+    }
+    console.error(mode === 'working' ? 'Reading uncommitted changes...' : `Fetching commits for ${mode} ${ref}...`);
+    if (isLocal) {
+      commits.push(...await readRange(repoPath, mode, ref!));
+    } else {
+      const result = await provider.fetchRange!(repo, mode, ref!, credentials);
+      commits.push(...result.commits);
+      if (result.pullRequest) pullRequests.push(result.pullRequest);
+    }
+  }
+  console.error(`Fetched ${commits.length} commit${commits.length === 1 ? '' : 's'}.`);
+
+  const llmId = (values['model-provider'] || 'gemini') as LlmProviderId;
+  if (!llmProviders.some(p => p.id === llmId)) fail(`Unknown model provider '${llmId}'`);
+  const defaults = defaultModelSettings(llmId);
+  const settings = {
+    ...defaults,
+    model: values.model || defaults.model,
+    baseUrl: values['model-url'] || process.env[MODEL_URL_ENV[llmId] || ''] || defaults.baseUrl,
+    apiKey: process.env[MODEL_KEY_ENV[llmId]] || '',
+    temperature: values.temperature ? parseFloat(values.temperature) : defaults.temperature,
+    contextTokens: values['context-tokens'] ? parseInt(values['context-tokens'], 10) : defaults.contextTokens
+  };
+
+  // Every finding is masked; there is nobody to review them in a pipeline
+  const findings = scanCommits(commits, BUILT_IN_RULES);
+  if (findings.length > 0) {
+    findings.forEach(f => console.error(`  ${f.ruleName} in ${commits.find(c => c.id === f.commitId)?.hash} (${f.field})`));
+    if (values['block-secrets']) fail(`${findings.length} possible secret(s) found`);
+    console.error(`Masked ${findings.length} possible secret(s).`);
+  }
+
+  const { markdown, report } = await generateDocumentation(redactCommits(commits, findings, {}), {
+    extraInfo: values.context || '',
+    setupInstructions: values.setup || '',
+    previousDocContent: values.previous ? readFileSync(values.previous, 'utf8') : null,
+    pullRequests,
+    template
+  }, settings, {
+    onStatus: (status) => console.error(`${status}...`)
+  });
+
+  const affected = report?.inputs.filter(i => i.treatment !== 'full') || [];
+  affected.forEach(input => console.error(`  ${input.treatment}: ${input.hash} ${input.message.split('\n')[0]}`));
+
+  const output = values.output || 'DOCUMENTATION.md';
+  writeFileSync(output, markdown.endsWith('\n') ? markdown : `${markdown}\n`);
+  console.error(`Wrote ${output}`);
+};
+
+main().catch((error) => fail(error.message || String(error)));
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Server, CheckCircle2 } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { BackendConfig, BackendStatus, fetchBackendStatus } from '../services/backendService';
+
+interface BackendSettingsPanelProps {
+  config: BackendConfig;
+  onChange: (config: BackendConfig) => void;
+}
+
+export const BackendSettingsPanel: React.FC<BackendSettingsPanelProps> = ({ config, onChange }) => {
+  const [status, setStatus] = useState<BackendStatus | null>(null);
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const update = (changes: Partial<BackendConfig>) => {
+    setStatus(null);
+    onChange({ ...config, ...changes });
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError('');
+    try {
+      setStatus(await fetchBackendStatus(config));
+    } catch (err: any) {
+      setStatus(null);
+      setError(err.message || 'Could not reach the backend');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Input
+          label="Backend URL (Optional)"
+          placeholder="https://commit2doc.example.com"
+          value={config.url}
+          onChange={(e) => update({ url: e.target.value })}
+        />
+        <Input
+          label="Your Backend Token"
+          type="password"
+          value={config.token}
+          onChange={(e) => update({ token: e.target.value })}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        With a backend, model keys and host tokens stay on the server and are not needed in the browser.
+        Leave the URL empty to call the model and hosts directly.
+      </p>
+
+      {config.url.trim() && (
+        <Button
+          variant="secondary"
+          size="sm"
+          className="w-full"
+          onClick={handleCheck}
+          isLoading={isChecking}
+          icon={<Server className="w-4 h-4" />}
+        >
+          Check Connection
+        </Button>
+      )}
+
+      {status && (
+        <div className="flex items-start text-sm text-gray-300">
+          <CheckCircle2 className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-green-400" />
+          <span>
+            Signed in as <span className="font-semibold">{status.user}</span>.
+            {' '}Models: {status.models.join(', ') || 'none'}. Host tokens: {status.hosts.join(', ') || 'none'}.
+          </span>
+        </div>
+      )}
+      {error && <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300">{error}</div>}
+    </div>
+  );
+};
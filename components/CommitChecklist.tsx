@@ -0,0 +1,66 @@
+import React from 'react';
+import { CheckSquare, Square, Plus, X } from 'lucide-react';
+import { Button } from './Button';
+import { Commit } from '../types';
+
+interface CommitChecklistProps {
+  commits: Commit[];
+  selectedIds: Set<string>;
+  onToggle: (id: string) => void;
+  onToggleAll: () => void;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}
+
+export const CommitChecklist: React.FC<CommitChecklistProps> = ({
+  commits,
+  selectedIds,
+  onToggle,
+  onToggleAll,
+  onConfirm,
+  onDiscard
+}) => {
+  const allSelected = selectedIds.size === commits.length;
+
+  return (
+    <div className="space-y-3 border border-gray-700 rounded-lg p-3 bg-gray-900/40">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-300">
+          {commits.length} commits found, {selectedIds.size} selected
+        </span>
+        <button onClick={onToggleAll} className="text-xs text-primary-400 hover:text-primary-300">
+          {allSelected ? 'Deselect all' : 'Select all'}
+        </button>
+      </div>
+
+      <ul className="space-y-1 max-h-56 overflow-y-auto pr-2">
+        {commits.map((commit) => {
+          const checked = selectedIds.has(commit.id);
+          return (
+            <li key={commit.id}>
+              <button
+                onClick={() => onToggle(commit.id)}
+                className={`w-full flex items-start text-left p-2 rounded text-sm transition-colors hover:bg-gray-800 ${checked ? 'text-gray-200' : 'text-gray-500'}`}
+              >
+                {checked
+                  ? <CheckSquare className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-primary-500" />
+                  : <Square className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+                <span className="font-mono text-primary-400 mr-2">{commit.hash.substring(0, 7)}</span>
+                <span className="truncate">{commit.message.split('\n')[0]}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="secondary" size="sm" onClick={onDiscard} icon={<X className="w-4 h-4" />}>
+          Discard
+        </Button>
+        <Button size="sm" onClick={onConfirm} disabled={selectedIds.size === 0} icon={<Plus className="w-4 h-4" />}>
+          Add {selectedIds.size} Selected
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,97 +1,234 @@
-import React, { useState } from 'react';
-import { Github, FileCode, Plus, Trash2, GitCommit, Cloud, Search, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { FileCode, Plus, Trash2, GitCommit, Search, GitPullRequest, Upload } from 'lucide-react';
 import { Button } from './Button';
 import { Input, TextArea } from './Input';
-import { Commit, CommitSource } from '../types';
-import { fetchGitHubCommit } from '../services/githubService';
-import { fetchAzureCommit, fetchAzureRepositories, AzureRepository } from '../services/azureService';
+import { CommitChecklist } from './CommitChecklist';
+import { SavedCredentialSelect } from './SavedCredentialSelect';
+import { RateLimitIndicator } from './RateLimitIndicator';
+import { providerStyle } from './providerStyles';
+import { Commit, CommitSource, PullRequestContext, StoredCredential } from '../types';
+import {
+  FetchModeId,
+  ProviderCredentials,
+  PullRequestStatus,
+  PullRequestSummary,
+  RepositorySummary,
+  resolveRepo,
+  hasToken,
+  EMPTY_CREDENTIALS
+} from '../services/commitProviders';
+import { commitProviders, getCommitProvider } from '../services/providerRegistry';
+import { parsePatchFile } from '../services/patchParser';
 
 interface CommitManagerProps {
   commits: Commit[];
   onAddCommit: (commit: Commit) => void;
+  onAddCommits: (commits: Commit[]) => void;
+  onAddPullRequest: (pr: PullRequestContext) => void;
   onRemoveCommit: (id: string) => void;
+  // Tokens and base URLs, keyed by provider id; also used for publishing
+  credentials: Record<string, ProviderCredentials>;
+  onCredentialsChange: (providerId: string, credentials: ProviderCredentials) => void;
+  // Unlocked vault entries, picked automatically by repository URL
+  storedCredentials: StoredCredential[];
+  // Failed and empty fetches are reported as toasts; the inline message is
+  // kept for missing fields
+  onError: (error: any) => void;
+  onNotice: (text: string) => void;
 }
 
-export const CommitManager: React.FC<CommitManagerProps> = ({ commits, onAddCommit, onRemoveCommit }) => {
-  const [activeTab, setActiveTab] = useState<'manual' | 'github' | 'azure'>('manual');
-  
+const MANUAL_TAB = 'manual';
+
+const selectClasses = "w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none";
+
+const badgeClass = (source: CommitSource) => {
+  if (source === CommitSource.MANUAL) return 'bg-indigo-900 text-indigo-200';
+  return providerStyle(commitProviders.find(p => p.source === source)?.id || '').badgeClass;
+};
+
+export const CommitManager: React.FC<CommitManagerProps> = ({
+  commits,
+  onAddCommit,
+  onAddCommits,
+  onAddPullRequest,
+  onRemoveCommit,
+  credentials,
+  onCredentialsChange,
+  storedCredentials,
+  onError,
+  onNotice
+}) => {
+  const [activeTab, setActiveTab] = useState<string>(MANUAL_TAB);
+  const provider = getCommitProvider(activeTab);
+
   // Shared/Split Fetch State
   const [repoUrl, setRepoUrl] = useState('');
-  const [commitHash, setCommitHash] = useState('');
-  
-  // Tokens
-  const [ghToken, setGhToken] = useState('');
-  const [azureToken, setAzureToken] = useState('');
-  
-  // Azure Specifics
-  const [azureOrg, setAzureOrg] = useState('');
-  const [azureRepos, setAzureRepos] = useState<AzureRepository[]>([]);
+  const [ref, setRef] = useState('');
+  const [fetchMode, setFetchMode] = useState<FetchModeId>('commit');
+  const fetchModes = provider?.fetchModes || [];
+  const activeMode = fetchModes.find(m => m.id === fetchMode) || fetchModes[0];
+  const ProviderIcon = provider && providerStyle(provider.id).icon;
+
+  const providerCredentials = (provider && credentials[provider.id]) || EMPTY_CREDENTIALS;
+
+  // Repository listing (e.g. per Azure organization)
+  const [repoScope, setRepoScope] = useState('');
+  const [repositories, setRepositories] = useState<RepositorySummary[]>([]);
   const [isLoadingRepos, setIsLoadingRepos] = useState(false);
-  
+
+  // Pull request listing
+  const [prStatus, setPrStatus] = useState<PullRequestStatus>('active');
+  const [pullRequests, setPullRequests] = useState<PullRequestSummary[]>([]);
+  const [isLoadingPrs, setIsLoadingPrs] = useState(false);
+
   const [isFetching, setIsFetching] = useState(false);
-  const [fetchError, setFetchError] = useState('');
+  const [fieldError, setFieldError] = useState('');
+
+  // Multi-commit imports land here first so noise commits can be deselected
+  const [pendingCommits, setPendingCommits] = useState<Commit[]>([]);
+  const [selectedPendingIds, setSelectedPendingIds] = useState<Set<string>>(new Set());
+  const [pendingPullRequest, setPendingPullRequest] = useState<PullRequestContext | null>(null);
 
   // Manual State
   const [manualDiff, setManualDiff] = useState('');
   const [manualMessage, setManualMessage] = useState('');
+  const [isDraggingPatch, setIsDraggingPatch] = useState(false);
+
+  // A pull request list belongs to one repository
+  useEffect(() => {
+    setPullRequests([]);
+  }, [repoUrl, activeTab]);
+
+  const switchTab = (tab: string) => {
+    setActiveTab(tab);
+    setFetchMode('commit');
+    setRepositories([]);
+    setFieldError('');
+  };
+
+  const updateCredentials = (changes: Partial<ProviderCredentials>) => {
+    if (!provider) return;
+    onCredentialsChange(provider.id, { ...providerCredentials, ...changes });
+  };
+
+  const showPending = (fetched: Commit[], pullRequest: PullRequestContext | null = null) => {
+    setPendingCommits(fetched);
+    setSelectedPendingIds(new Set(fetched.map(c => c.id)));
+    setPendingPullRequest(pullRequest);
+  };
 
   const handleFetch = async () => {
-    if (!repoUrl || !commitHash) {
-      setFetchError("Repo URL and Commit Hash are required");
+    if (!provider) return;
+
+    if (!repoUrl || (!ref && !activeMode.refOptional)) {
+      setFieldError(`Repo URL and ${activeMode.refLabel} are required`);
       return;
     }
-    
+    if (provider.token.requiredMessage && !hasToken(provider, providerCredentials)) {
+      setFieldError(provider.token.requiredMessage);
+      return;
+    }
+
     setIsFetching(true);
-    setFetchError('');
-    
+    setFieldError('');
+
     try {
-      let commit: Commit;
-      
-      if (activeTab === 'github') {
-        commit = await fetchGitHubCommit(repoUrl, commitHash, ghToken);
-      } else if (activeTab === 'azure') {
-        if (!azureToken) {
-            throw new Error("Personal Access Token (PAT) is required for Azure DevOps");
-        }
-        commit = await fetchAzureCommit(repoUrl, commitHash, azureToken);
-      } else {
-        throw new Error("Invalid fetch source");
+      const repo = resolveRepo(provider, repoUrl, providerCredentials);
+
+      if (fetchMode === 'commit') {
+        onAddCommit(await provider.fetchCommit(repo, ref, providerCredentials));
+      } else if (provider.fetchRange) {
+        const result = await provider.fetchRange(repo, fetchMode, ref, providerCredentials);
+        showPending(result.commits, result.pullRequest || null);
       }
 
-      onAddCommit(commit);
       // Reset fields
-      setCommitHash('');
-      setFetchError('');
+      setRef('');
     } catch (err: any) {
-      setFetchError(err.message || "Failed to fetch");
+      onError(err);
     } finally {
       setIsFetching(false);
     }
   };
 
   const handleLoadRepos = async () => {
-    if (!azureOrg || !azureToken) {
-      setFetchError("Organization and PAT are required to load repositories");
+    if (!provider?.listRepositories) return;
+    if (!repoScope || !hasToken(provider, providerCredentials)) {
+      setFieldError(`${provider.repositoryScope?.label} and token are required to load repositories`);
       return;
     }
 
     setIsLoadingRepos(true);
-    setFetchError('');
-    setAzureRepos([]);
+    setFieldError('');
+    setRepositories([]);
 
     try {
-      const repos = await fetchAzureRepositories(azureOrg, azureToken);
-      setAzureRepos(repos);
+      const repos = await provider.listRepositories(repoScope, providerCredentials);
+      setRepositories(repos);
       if (repos.length === 0) {
-        setFetchError("No repositories found in this organization.");
+        onNotice("No repositories found in this organization.");
       }
     } catch (err: any) {
-      setFetchError(err.message || "Failed to load repositories");
+      onError(err);
     } finally {
       setIsLoadingRepos(false);
     }
   };
 
+  const handleLoadPullRequests = async () => {
+    if (!provider?.listPullRequests) return;
+
+    setIsLoadingPrs(true);
+    setFieldError('');
+    setPullRequests([]);
+    setRef('');
+
+    try {
+      const repo = resolveRepo(provider, repoUrl, providerCredentials);
+      const prs = await provider.listPullRequests(repo, prStatus, providerCredentials);
+      setPullRequests(prs);
+      if (prs.length === 0) {
+        onNotice(`No ${prStatus} pull requests found in this repository.`);
+      }
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setIsLoadingPrs(false);
+    }
+  };
+
+  const togglePending = (id: string) => {
+    setSelectedPendingIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllPending = () => {
+    setSelectedPendingIds(prev =>
+      prev.size === pendingCommits.length ? new Set() : new Set(pendingCommits.map(c => c.id))
+    );
+  };
+
+  const confirmPending = () => {
+    onAddCommits(pendingCommits.filter(c => selectedPendingIds.has(c.id)));
+    if (pendingPullRequest) {
+      onAddPullRequest(pendingPullRequest);
+    }
+    discardPending();
+  };
+
+  const discardPending = () => {
+    setPendingCommits([]);
+    setSelectedPendingIds(new Set());
+    setPendingPullRequest(null);
+  };
+
   const handleManualAdd = () => {
     if (!manualDiff) return;
     const newCommit: Commit = {
@@ -107,11 +244,63 @@ export const CommitManager: React.FC<CommitManagerProps> = ({ commits, onAddComm
     setManualMessage('');
   };
 
-  const tabClasses = (tabName: string) => 
-    `flex-1 py-3 text-sm font-medium transition-colors ${activeTab === tabName 
-      ? 'bg-gray-800 text-primary-400 border-b-2 border-primary-500' 
+  // git format-patch output or an mbox of several patches
+  const handlePatchFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        showPending(parsePatchFile(event.target?.result as string, file.name));
+      } catch (err: any) {
+        onError(err);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handlePatchDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDraggingPatch(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handlePatchFile(file);
+  };
+
+  const tabClasses = (tabName: string) =>
+    `flex-1 py-3 text-sm font-medium transition-colors ${activeTab === tabName
+      ? 'bg-gray-800 text-primary-400 border-b-2 border-primary-500'
       : 'bg-gray-900 text-gray-400 hover:text-gray-200'}`;
 
+  const tokenInput = provider && (
+    <>
+      <SavedCredentialSelect
+        storedCredentials={storedCredentials}
+        providerId={provider.id}
+        url={repoUrl || repoScope}
+        token={providerCredentials.token}
+        onSelect={(c) => updateCredentials({ token: c.token, baseUrl: c.baseUrl || providerCredentials.baseUrl })}
+      />
+      <Input
+        label={provider.token.label}
+        type="password"
+        placeholder={provider.token.placeholder}
+        value={providerCredentials.token}
+        onChange={(e) => updateCredentials({ token: e.target.value })}
+      />
+    </>
+  );
+
+  const pendingChecklist = pendingCommits.length > 0 && (
+    <CommitChecklist
+      commits={pendingCommits}
+      selectedIds={selectedPendingIds}
+      onToggle={togglePending}
+      onToggleAll={toggleAllPending}
+      onConfirm={confirmPending}
+      onDiscard={discardPending}
+    />
+  );
+
+  const errorBox = fieldError && <div className="text-red-400 text-sm p-2 bg-red-900/20 rounded border border-red-900/50">{fieldError}</div>;
+
   return (
     <div className="space-y-6">
       {/* Added Commits List */}
@@ -120,7 +309,7 @@ export const CommitManager: React.FC<CommitManagerProps> = ({ commits, onAddComm
           <GitCommit className="w-5 h-5 mr-2 text-primary-500" />
           Selected Commits ({commits.length})
         </h3>
-        
+
         {commits.length === 0 ? (
           <div className="p-6 border border-dashed border-gray-700 rounded-lg text-center text-gray-500">
             No commits added yet. Add one below to start documentation.
@@ -131,18 +320,14 @@ export const CommitManager: React.FC<CommitManagerProps> = ({ commits, onAddComm
               <li key={commit.id} className="flex items-center justify-between bg-gray-800 p-3 rounded-lg border border-gray-700 group">
                 <div className="overflow-hidden">
                   <div className="flex items-center text-sm font-medium text-gray-200">
-                    <span className={`mr-2 px-1.5 py-0.5 rounded text-xs font-bold
-                      ${commit.source === CommitSource.GITHUB ? 'bg-gray-700 text-white' : ''}
-                      ${commit.source === CommitSource.AZURE ? 'bg-blue-900 text-blue-200' : ''}
-                      ${commit.source === CommitSource.MANUAL ? 'bg-indigo-900 text-indigo-200' : ''}
-                    `}>
+                    <span className={`mr-2 px-1.5 py-0.5 rounded text-xs font-bold ${badgeClass(commit.source)}`}>
                       {commit.source}
                     </span>
                     <span className="font-mono text-primary-400 mr-2">{commit.hash.substring(0, 7)}</span>
                     <span className="truncate max-w-[200px]">{commit.message}</span>
                   </div>
                 </div>
-                <button 
+                <button
                   onClick={() => onRemoveCommit(commit.id)}
                   className="text-gray-500 hover:text-red-400 p-1 transition-colors"
                 >
@@ -157,161 +342,228 @@ export const CommitManager: React.FC<CommitManagerProps> = ({ commits, onAddComm
       {/* Input Area */}
       <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden shadow-sm">
         <div className="flex border-b border-gray-700">
-          <button className={tabClasses('manual')} onClick={() => { setActiveTab('manual'); setFetchError(''); }}>
+          <button className={tabClasses(MANUAL_TAB)} onClick={() => switchTab(MANUAL_TAB)}>
             <FileCode className="w-4 h-4 inline mr-2" />
             Paste Diff
           </button>
-          <button className={tabClasses('github')} onClick={() => { setActiveTab('github'); setFetchError(''); }}>
-            <Github className="w-4 h-4 inline mr-2" />
-            GitHub
-          </button>
-          <button className={tabClasses('azure')} onClick={() => { setActiveTab('azure'); setFetchError(''); }}>
-            <Cloud className="w-4 h-4 inline mr-2" />
-            Azure DevOps
-          </button>
+          {commitProviders.map(p => {
+            const Icon = providerStyle(p.id).icon;
+            return (
+              <button key={p.id} className={tabClasses(p.id)} onClick={() => switchTab(p.id)}>
+                <Icon className="w-4 h-4 inline mr-2" />
+                {p.label}
+              </button>
+            );
+          })}
         </div>
 
         <div className="p-4 space-y-4">
-          {activeTab === 'manual' ? (
+          {!provider ? (
             <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
-              <Input 
-                placeholder="Commit Message (Optional)" 
+              <Input
+                placeholder="Commit Message (Optional)"
                 value={manualMessage}
                 onChange={(e) => setManualMessage(e.target.value)}
               />
-              <TextArea 
-                placeholder="Paste your git diff or code changes here..." 
+              <TextArea
+                placeholder="Paste your git diff or code changes here..."
                 rows={6}
                 value={manualDiff}
                 onChange={(e) => setManualDiff(e.target.value)}
                 className="font-mono text-sm"
               />
-              <Button 
-                onClick={handleManualAdd} 
+              <Button
+                onClick={handleManualAdd}
                 disabled={!manualDiff}
                 className="w-full"
                 icon={<Plus className="w-4 h-4"/>}
               >
                 Add Diff manually
               </Button>
+
+              <label
+                htmlFor="patch-file"
+                onDragOver={(e) => { e.preventDefault(); setIsDraggingPatch(true); }}
+                onDragLeave={() => setIsDraggingPatch(false)}
+                onDrop={handlePatchDrop}
+                className={`flex items-center justify-center w-full p-4 border-2 border-dashed rounded-lg cursor-pointer text-sm text-gray-400 transition-all hover:bg-gray-700/50 hover:border-primary-500 ${isDraggingPatch ? 'border-primary-500 bg-gray-700/50' : 'border-gray-600'}`}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                <span><span className="font-semibold">Drop or choose</span> a .patch / .mbox file</span>
+                <input
+                  id="patch-file"
+                  type="file"
+                  className="hidden"
+                  accept=".patch,.diff,.mbox,.eml,.txt"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handlePatchFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+
+              {pendingChecklist}
+              {errorBox}
             </div>
           ) : (
             <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
-              
-              {activeTab === 'github' && (
-                <>
-                  <div className="bg-gray-900/50 p-3 rounded text-xs text-gray-400 border border-gray-800">
-                     Fetching from GitHub API. Public repos work without token. Private repos need a Classic Token.
-                  </div>
-                  <Input 
-                    label="GitHub Repository URL" 
-                    placeholder="https://github.com/owner/repo"
-                    value={repoUrl}
-                    onChange={(e) => setRepoUrl(e.target.value)}
-                  />
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    <Input 
-                      label="Commit Hash" 
-                      placeholder="e.g. 8a2b3c" 
-                      value={commitHash}
-                      onChange={(e) => setCommitHash(e.target.value)}
-                    />
-                    <Input 
-                      label="GitHub Token (Optional)" 
-                      type="password"
-                      placeholder="ghp_..."
-                      value={ghToken}
-                      onChange={(e) => setGhToken(e.target.value)}
-                    />
-                  </div>
-                </>
-              )}
+              <div className="bg-gray-900/50 p-3 rounded text-xs text-gray-400 border border-gray-800">
+                {provider.hint}
+              </div>
+              <RateLimitIndicator />
 
-              {activeTab === 'azure' && (
+              {provider.repositoryScope && provider.listRepositories && (
                 <>
-                  <div className="bg-gray-900/50 p-3 rounded text-xs text-gray-400 border border-gray-800">
-                    Provide Organization & PAT to list repos, or paste full URL manually. PAT requires 'Code (Read)' scope.
-                  </div>
-
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    <Input 
-                      label="Organization Name" 
-                      placeholder="e.g. my-org or https://dev.azure.com/my-org"
-                      value={azureOrg}
-                      onChange={(e) => setAzureOrg(e.target.value)}
-                    />
-                    <Input 
-                      label="PAT (Required)" 
-                      type="password"
-                      placeholder="Personal Access Token"
-                      value={azureToken}
-                      onChange={(e) => setAzureToken(e.target.value)}
+                    <Input
+                      label={provider.repositoryScope.label}
+                      placeholder={provider.repositoryScope.placeholder}
+                      value={repoScope}
+                      onChange={(e) => setRepoScope(e.target.value)}
                     />
+                    {tokenInput}
                   </div>
 
-                  <Button 
-                    variant="secondary" 
+                  <Button
+                    variant="secondary"
                     size="sm"
                     onClick={handleLoadRepos}
                     isLoading={isLoadingRepos}
-                    disabled={!azureOrg || !azureToken}
+                    disabled={!repoScope || !hasToken(provider, providerCredentials)}
                     icon={<Search className="w-4 h-4"/>}
                     className="w-full border-dashed border-gray-600"
                   >
                     Load Repositories
                   </Button>
+                </>
+              )}
 
-                  {azureRepos.length > 0 ? (
+              {repositories.length > 0 ? (
+                <div className="w-full">
+                  <div className="flex justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-300">Repository</label>
+                    <button
+                      onClick={() => setRepositories([])}
+                      className="text-xs text-primary-400 hover:text-primary-300"
+                    >
+                      Switch to Manual URL
+                    </button>
+                  </div>
+                  <select
+                    className={selectClasses}
+                    value={repoUrl}
+                    onChange={(e) => setRepoUrl(e.target.value)}
+                  >
+                    <option value="">Select a repository...</option>
+                    {repositories.map(repo => (
+                      <option key={repo.id} value={repo.webUrl}>
+                        {repo.name} ({repo.group})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <Input
+                  label={provider.repoUrl.label}
+                  placeholder={provider.repoUrl.placeholder}
+                  value={repoUrl}
+                  onChange={(e) => setRepoUrl(e.target.value)}
+                />
+              )}
+
+              {provider.baseUrl && (
+                <Input
+                  label={provider.baseUrl.label}
+                  placeholder={provider.baseUrl.placeholder}
+                  value={providerCredentials.baseUrl}
+                  onChange={(e) => updateCredentials({ baseUrl: e.target.value })}
+                />
+              )}
+
+              {fetchModes.length > 1 && (
+                <div className="w-full">
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Import</label>
+                  <select
+                    className={selectClasses}
+                    value={fetchMode}
+                    onChange={(e) => { setFetchMode(e.target.value as FetchModeId); setRef(''); }}
+                  >
+                    {fetchModes.map(mode => (
+                      <option key={mode.id} value={mode.id}>{mode.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {fetchMode === 'pr' && provider.listPullRequests && (
+                <>
+                  <div className="grid grid-cols-3 gap-3 items-end">
+                    <div className="col-span-1">
+                      <label className="block text-sm font-medium text-gray-300 mb-1">Status</label>
+                      <select
+                        className={selectClasses}
+                        value={prStatus}
+                        onChange={(e) => setPrStatus(e.target.value as PullRequestStatus)}
+                      >
+                        <option value="active">Active</option>
+                        <option value="completed">Completed</option>
+                      </select>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      onClick={handleLoadPullRequests}
+                      isLoading={isLoadingPrs}
+                      disabled={!repoUrl}
+                      icon={<GitPullRequest className="w-4 h-4"/>}
+                      className="col-span-2"
+                    >
+                      Load Pull Requests
+                    </Button>
+                  </div>
+
+                  {pullRequests.length > 0 && (
                     <div className="w-full">
-                      <div className="flex justify-between mb-1">
-                        <label className="block text-sm font-medium text-gray-300">Repository</label>
-                        <button 
-                          onClick={() => setAzureRepos([])}
-                          className="text-xs text-primary-400 hover:text-primary-300"
-                        >
-                          Switch to Manual URL
-                        </button>
-                      </div>
+                      <label className="block text-sm font-medium text-gray-300 mb-1">Pull Request</label>
                       <select
-                        className="w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none"
-                        value={repoUrl}
-                        onChange={(e) => setRepoUrl(e.target.value)}
+                        className={selectClasses}
+                        value={ref}
+                        onChange={(e) => setRef(e.target.value)}
                       >
-                        <option value="">Select a repository...</option>
-                        {azureRepos.map(repo => (
-                          <option key={repo.id} value={repo.webUrl}>
-                            {repo.name} ({repo.project})
+                        <option value="">Select a pull request...</option>
+                        {pullRequests.map(pr => (
+                          <option key={pr.id} value={pr.id}>
+                            !{pr.id} {pr.title} ({pr.sourceBranch} → {pr.targetBranch})
                           </option>
                         ))}
                       </select>
                     </div>
-                  ) : (
-                    <Input 
-                      label="Repo URL (Manual)" 
-                      placeholder="https://dev.azure.com/org/project/_git/repo"
-                      value={repoUrl}
-                      onChange={(e) => setRepoUrl(e.target.value)}
-                    />
                   )}
-
-                  <Input 
-                    label="Commit Hash" 
-                    placeholder="e.g. 8a2b3c" 
-                    value={commitHash}
-                    onChange={(e) => setCommitHash(e.target.value)}
-                  />
                 </>
               )}
 
-              {fetchError && <div className="text-red-400 text-sm p-2 bg-red-900/20 rounded border border-red-900/50">{fetchError}</div>}
-              
-              <Button 
-                onClick={handleFetch} 
+              <div className={`grid grid-cols-1 gap-3 ${provider.repositoryScope ? '' : 'md:grid-cols-2'}`}>
+                {!(fetchMode === 'pr' && pullRequests.length > 0) && (
+                  <Input
+                    label={activeMode.refLabel}
+                    placeholder={activeMode.refPlaceholder}
+                    value={ref}
+                    onChange={(e) => setRef(e.target.value)}
+                  />
+                )}
+                {!provider.repositoryScope && tokenInput}
+              </div>
+
+              {pendingChecklist}
+              {errorBox}
+
+              <Button
+                onClick={handleFetch}
                 isLoading={isFetching}
                 className="w-full"
-                icon={activeTab === 'github' ? <Github className="w-4 h-4"/> : <Cloud className="w-4 h-4"/>}
+                icon={ProviderIcon && <ProviderIcon className="w-4 h-4"/>}
               >
-                {activeTab === 'github' ? 'Fetch from GitHub' : 'Fetch from Azure'}
+                Fetch from {provider.label}
               </Button>
             </div>
           )}
@@ -319,4 +571,4 @@ export const CommitManager: React.FC<CommitManagerProps> = ({ commits, onAddComm
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
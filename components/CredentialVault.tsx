@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { KeyRound, X, Lock, Plus, Trash2, ShieldCheck } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { StoredCredential } from '../types';
+import { TokenCheck } from '../services/commitProviders';
+import { isBackendEnabled } from '../services/backendService';
+import { commitProviders, getCommitProvider } from '../services/providerRegistry';
+import { VaultSession, createVault, deleteVault, hasVault, saveVault, unlockVault } from '../services/vaultService';
+
+interface CredentialVaultProps {
+  session: VaultSession | null;
+  credentials: StoredCredential[];
+  onUnlock: (session: VaultSession, credentials: StoredCredential[]) => void;
+  onChange: (credentials: StoredCredential[]) => void;
+  onLock: () => void;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const selectClasses = "w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none";
+
+const tokenProviders = commitProviders.filter(p => !p.direct);
+
+const emptyDraft = () => ({ providerId: tokenProviders[0]?.id || '', name: '', token: '', baseUrl: '', urlPrefix: '' });
+
+export const CredentialVault: React.FC<CredentialVaultProps> = ({
+  session,
+  credentials,
+  onUnlock,
+  onChange,
+  onLock,
+  onClose
+}) => {
+  const [vaultExists, setVaultExists] = useState(hasVault);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  // Host requests then carry the backend's tokens, so a check would test those
+  const usesBackend = isBackendEnabled();
+
+  const [draft, setDraft] = useState(emptyDraft);
+  const draftProvider = getCommitProvider(draft.providerId);
+
+  // Token check results per credential id
+  const [checks, setChecks] = useState<Record<string, TokenCheck | string>>({});
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Vault operation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+    if (passphrase !== confirmation) {
+      throw new Error("The passphrases do not match.");
+    }
+    onUnlock(await createVault(passphrase), []);
+    setPassphrase('');
+    setConfirmation('');
+  });
+
+  const handleUnlock = () => run(async () => {
+    const unlocked = await unlockVault(passphrase);
+    onUnlock(unlocked.session, unlocked.credentials);
+    setPassphrase('');
+  });
+
+  const handleReset = () => {
+    if (!confirm("Delete the vault and every credential in it? This cannot be undone.")) return;
+    deleteVault();
+    setVaultExists(false);
+    setPassphrase('');
+    setError('');
+  };
+
+  const persist = (next: StoredCredential[]) => run(async () => {
+    if (!session) return;
+    await saveVault(session, next);
+    onChange(next);
+  });
+
+  const handleAdd = () => {
+    if (!draft.name.trim() || !draft.token.trim()) {
+      setError("Enter a name and a token.");
+      return;
+    }
+    persist([...credentials, { id: crypto.randomUUID(), ...draft, name: draft.name.trim(), token: draft.token.trim() }]);
+    setDraft(emptyDraft());
+  };
+
+  const handleDelete = (id: string) => {
+    persist(credentials.filter(c => c.id !== id));
+  };
+
+  const handleValidate = async (credential: StoredCredential) => {
+    const provider = getCommitProvider(credential.providerId);
+    if (!provider?.validateToken || usesBackend) return;
+    setCheckingId(credential.id);
+    try {
+      const check = await provider.validateToken(credential, credential.urlPrefix);
+      setChecks(prev => ({ ...prev, [credential.id]: check }));
+    } catch (err: any) {
+      setChecks(prev => ({ ...prev, [credential.id]: err.message || 'Token check failed' }));
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  const renderCheck = (id: string) => {
+    const check = checks[id];
+    if (!check) return null;
+    if (typeof check === 'string') {
+      return <p className="text-xs text-red-400 mt-2">{check}</p>;
+    }
+    return (
+      <div className="text-xs mt-2 space-y-1">
+        <p className="text-gray-300">
+          Token of <span className="font-semibold">{check.user || 'unknown user'}</span>
+          {check.scopes && <>, scopes: {check.scopes.join(', ') || 'none'}</>}
+        </p>
+        {check.missing.length > 0
+          ? <p className="text-yellow-400">Missing: {check.missing.join(', ')}</p>
+          : <p className="text-green-400">Has the access this app needs.</p>}
+        {check.note && <p className="text-gray-500">{check.note}</p>}
+      </div>
+    );
+  };
+
+  const errorBox = error && (
+    <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300">{error}</div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h2 className="font-semibold text-gray-200 flex items-center">
+            <KeyRound className="w-4 h-4 mr-2 text-primary-500" />
+            Credentials
+          </h2>
+          <div className="flex items-center space-x-3">
+            {session && (
+              <button onClick={onLock} className="flex items-center text-xs text-gray-400 hover:text-white">
+                <Lock className="w-3 h-3 mr-1" />
+                Lock
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {!session ? (
+          <div className="p-4 space-y-4">
+            <p className="text-xs text-gray-500">
+              {vaultExists
+                ? 'Enter the passphrase to unlock the saved tokens.'
+                : 'Tokens are encrypted in this browser with a passphrase. The passphrase is not stored and cannot be recovered.'}
+            </p>
+            <Input
+              label="Passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && vaultExists) handleUnlock(); }}
+            />
+            {!vaultExists && (
+              <Input
+                label="Confirm Passphrase"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            )}
+            {errorBox}
+            <Button
+              className="w-full"
+              onClick={vaultExists ? handleUnlock : handleCreate}
+              isLoading={isBusy}
+              disabled={!passphrase}
+              icon={<KeyRound className="w-4 h-4" />}
+            >
+              {vaultExists ? 'Unlock' : 'Create Vault'}
+            </Button>
+            {vaultExists && (
+              <button onClick={handleReset} className="text-xs text-gray-500 hover:text-red-400">
+                Forgot the passphrase? Delete the vault
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="overflow-y-auto p-4 space-y-4">
+            {credentials.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No saved credentials yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {usesBackend && (
+                  <p className="text-xs text-yellow-400">
+                    A backend is configured, so host requests use its tokens instead of these. Saved tokens
+                    cannot be validated until the backend URL is cleared.
+                  </p>
+                )}
+                {credentials.map(credential => {
+                  const provider = getCommitProvider(credential.providerId);
+                  return (
+                    <div key={credential.id} className="bg-gray-800 rounded-lg border border-gray-700 p-3">
+                      <div className="flex items-start justify-between">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-gray-200 truncate">{credential.name}</div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {provider?.label || credential.providerId}
+                            {credential.urlPrefix ? ` • ${credential.urlPrefix}` : ` • ${credential.baseUrl || 'any repository on the hosted service'}`}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                          {provider?.validateToken && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleValidate(credential)}
+                              isLoading={checkingId === credential.id}
+                              disabled={usesBackend}
+                              title={usesBackend ? 'Not available while a backend is configured' : undefined}
+                              icon={<ShieldCheck className="w-4 h-4" />}
+                            >
+                              Validate
+                            </Button>
+                          )}
+                          <button onClick={() => handleDelete(credential.id)} className="text-gray-500 hover:text-red-400">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                      {renderCheck(credential.id)}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="border-t border-gray-700 pt-4 space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">Host</label>
+                  <select
+                    className={selectClasses}
+                    value={draft.providerId}
+                    onChange={(e) => setDraft({ ...draft, providerId: e.target.value, baseUrl: '' })}
+                  >
+                    {tokenProviders.map(p => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    label="Name"
+                    placeholder="e.g. Work GitHub"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Input
+                label="Token"
+                type="password"
+                placeholder={draftProvider?.token.placeholder}
+                value={draft.token}
+                onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+              />
+              {draftProvider?.baseUrl && (
+                <Input
+                  label={draftProvider.baseUrl.label}
+                  placeholder={draftProvider.baseUrl.placeholder}
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                />
+              )}
+              <Input
+                label="Use For URLs Starting With (Optional)"
+                placeholder={draftProvider?.repositoryScope?.placeholder || draftProvider?.repoUrl.placeholder}
+                value={draft.urlPrefix}
+                onChange={(e) => setDraft({ ...draft, urlPrefix: e.target.value })}
+              />
+              {errorBox}
+              <Button
+                variant="secondary"
+                className="w-full"
+                onClick={handleAdd}
+                isLoading={isBusy}
+                icon={<Plus className="w-4 h-4" />}
+              >
+                Add Credential
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,39 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Download, Copy, Check, FileText } from 'lucide-react';
+import { Copy, Check, FileText, Loader2, GitCompare, Pencil, Upload } from 'lucide-react';
 import { Button } from './Button';
+import { SectionReview, SectionReviewProps } from './SectionReview';
+import { MarkdownEditor } from './MarkdownEditor';
+import { ExportMenu } from './ExportMenu';
 
 interface DocumentationPreviewProps {
   markdown: string;
+  isStreaming?: boolean;
+  // Present when the document updates an uploaded one
+  review?: SectionReviewProps;
+  // Enables the edit mode; receives the whole edited document
+  onChange?: (markdown: string) => void;
+  onPublish?: () => void;
 }
 
-export const DocumentationPreview: React.FC<DocumentationPreviewProps> = ({ markdown }) => {
+export const DocumentationPreview: React.FC<DocumentationPreviewProps> = ({ markdown, isStreaming, review, onChange, onPublish }) => {
   const [copied, setCopied] = React.useState(false);
+  const [showChanges, setShowChanges] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const changedCount = review ? review.changes.filter(c => c.status !== 'unchanged').length : 0;
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+
+  // Follow the text as it streams in
+  React.useEffect(() => {
+    if (isStreaming && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [markdown, isStreaming]);
+
+  // A new generation replaces the text being edited
+  React.useEffect(() => {
+    if (isStreaming) setIsEditing(false);
+  }, [isStreaming]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(markdown);
@@ -16,17 +41,14 @@ export const DocumentationPreview: React.FC<DocumentationPreviewProps> = ({ mark
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleDownload = () => {
-    const blob = new Blob([markdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'DOCUMENTATION.md';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
+  if (!markdown && isStreaming) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-500 p-12 border-2 border-dashed border-gray-700 rounded-xl bg-gray-800/50">
+        <Loader2 className="w-12 h-12 mb-4 animate-spin opacity-40" />
+        <p className="text-lg">Waiting for the model...</p>
+      </div>
+    );
+  }
 
   if (!markdown) {
     return (
@@ -44,21 +66,61 @@ export const DocumentationPreview: React.FC<DocumentationPreviewProps> = ({ mark
         <h2 className="font-semibold text-gray-200 flex items-center">
           <FileText className="w-4 h-4 mr-2 text-primary-500" />
           Preview
+          {isStreaming && (
+            <span className="ml-3 flex items-center text-xs font-normal text-primary-400">
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              Streaming
+            </span>
+          )}
         </h2>
         <div className="flex space-x-2">
-          <Button variant="secondary" size="sm" onClick={handleCopy} className="!py-1 !px-2 text-xs">
+          {onChange && (
+            <Button
+              variant={isEditing ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setIsEditing(!isEditing)}
+              disabled={isStreaming}
+              className="!py-1 !px-2 text-xs"
+            >
+              <Pencil className="w-3 h-3 mr-1" />
+              {isEditing ? 'Done' : 'Edit'}
+            </Button>
+          )}
+          {review && !isEditing && (
+            <Button
+              variant={showChanges ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setShowChanges(!showChanges)}
+              className="!py-1 !px-2 text-xs"
+            >
+              <GitCompare className="w-3 h-3 mr-1" />
+              Changes ({changedCount})
+            </Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={handleCopy} disabled={isStreaming} className="!py-1 !px-2 text-xs">
             {copied ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
             {copied ? 'Copied' : 'Copy'}
           </Button>
-          <Button variant="primary" size="sm" onClick={handleDownload} className="!py-1 !px-2 text-xs">
-            <Download className="w-3 h-3 mr-1" />
-            Save .md
-          </Button>
+          {onPublish && (
+            <Button variant="secondary" size="sm" onClick={onPublish} disabled={isStreaming} className="!py-1 !px-2 text-xs">
+              <Upload className="w-3 h-3 mr-1" />
+              Publish
+            </Button>
+          )}
+          <ExportMenu markdown={markdown} disabled={isStreaming} />
         </div>
       </div>
-      <div className="flex-1 overflow-y-auto p-6 bg-gray-800 prose prose-invert prose-sm max-w-none">
-        <ReactMarkdown>{markdown}</ReactMarkdown>
-      </div>
+      {isEditing && onChange ? (
+        <MarkdownEditor value={markdown} onChange={onChange} />
+      ) : review && showChanges ? (
+        <div className="flex-1 overflow-y-auto bg-gray-800">
+          <SectionReview {...review} />
+        </div>
+      ) : (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 bg-gray-800 prose prose-invert prose-sm max-w-none">
+          <ReactMarkdown>{markdown}</ReactMarkdown>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
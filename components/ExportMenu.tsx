@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { Button } from './Button';
+import { EXPORT_FORMATS, ExportFormat, exportDocument } from '../services/exportService';
+
+interface ExportMenuProps {
+  markdown: string;
+  disabled?: boolean;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ markdown, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fileName, setFileName] = useState('DOCUMENTATION');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    setError(null);
+    try {
+      exportDocument(markdown, format, fileName.trim() || 'DOCUMENTATION');
+      setIsOpen(false);
+    } catch (err: any) {
+      console.error("Export Error:", err);
+      setError(err.message || "Export failed.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="primary"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="!py-1 !px-2 text-xs"
+      >
+        <Download className="w-3 h-3 mr-1" />
+        Export
+        <ChevronDown className="w-3 h-3 ml-1" />
+      </Button>
+      {isOpen && !disabled && (
+        <div className="absolute right-0 mt-2 w-64 z-20 bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-3 space-y-2">
+          <label className="block text-xs font-medium text-gray-400">File name</label>
+          <input
+            className="w-full rounded bg-gray-800 border border-gray-700 px-2 py-1 text-sm text-gray-100 focus:border-primary-500 focus:outline-none"
+            value={fileName}
+            onChange={(e) => setFileName(e.target.value)}
+          />
+          <ul className="pt-1">
+            {EXPORT_FORMATS.map(format => (
+              <li key={format.id}>
+                <button
+                  onClick={() => handleExport(format.id)}
+                  className="w-full flex items-center justify-between text-left text-sm px-2 py-1.5 rounded text-gray-200 hover:bg-gray-800"
+                >
+                  {format.label}
+                  {format.extension && <span className="text-xs font-mono text-gray-500">.{format.extension}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { GitCompare, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { LineDiff } from './LineDiff';
+import { GenerationRun } from '../types';
+
+interface GenerationHistoryPanelProps {
+  runs: GenerationRun[];
+  onRestore: (run: GenerationRun) => void;
+  onDelete: (id: string) => void;
+}
+
+// The run inputs shown side by side when comparing
+const runFields: { label: string; value: (run: GenerationRun) => string }[] = [
+  { label: 'Date', value: run => new Date(run.createdAt).toLocaleString() },
+  { label: 'Template', value: run => run.templateName },
+  { label: 'Model', value: run => `${run.model.provider} / ${run.model.model}` },
+  { label: 'Temperature', value: run => run.model.temperature.toFixed(1) },
+  { label: 'Context budget', value: run => run.model.contextTokens.toLocaleString() },
+  { label: 'Commits', value: run => run.commitHashes.map(h => h.substring(0, 7)).join(', ') },
+  { label: 'Pull requests', value: run => run.pullRequestIds.join(', ') || '—' },
+  { label: 'Existing doc', value: run => run.previousDocName || '—' },
+  { label: 'Additional context', value: run => run.extraInfo || '—' },
+  { label: 'Setup instructions', value: run => run.setupInstructions || '—' }
+];
+
+export const GenerationHistoryPanel: React.FC<GenerationHistoryPanelProps> = ({ runs, onRestore, onDelete }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  // Keep at most two runs selected, dropping the oldest pick
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)));
+  };
+
+  // Compare the older run against the newer one
+  const [older, newer] = runs
+    .filter(run => selectedIds.includes(run.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  if (runs.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 text-sm text-gray-500">
+        Every generated document is kept here with the inputs and model that produced it.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm text-gray-400">
+        <span>{runs.length} run{runs.length === 1 ? '' : 's'} · select two to compare</span>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="!py-1 !px-2 text-xs"
+          disabled={!newer}
+          onClick={() => setComparing(true)}
+          icon={<GitCompare className="w-3 h-3" />}
+        >
+          Compare
+        </Button>
+      </div>
+
+      <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {runs.map(run => (
+          <li key={run.id} className="flex items-start p-3 bg-gray-900/40 border border-gray-700 rounded-lg">
+            <input
+              type="checkbox"
+              className="mt-1 mr-3 accent-primary-500"
+              checked={selectedIds.includes(run.id)}
+              onChange={() => toggleSelected(run.id)}
+            />
+            <div className="flex-1 overflow-hidden">
+              <p className="text-sm text-gray-200 truncate">
+                {run.templateName}
+                {run.cancelled && <span className="ml-2 text-xs text-yellow-400">cancelled</span>}
+              </p>
+              <p className="text-xs text-gray-500 truncate">
+                {new Date(run.createdAt).toLocaleString()} · {run.model.model} @ {run.model.temperature.toFixed(1)} · {run.commitHashes.length} commit{run.commitHashes.length === 1 ? '' : 's'}
+              </p>
+            </div>
+            <button onClick={() => onRestore(run)} className="p-1 text-gray-400 hover:text-primary-400" title="Restore this output and its settings">
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button onClick={() => onDelete(run.id)} className="p-1 text-gray-400 hover:text-red-400" title="Delete run">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {comparing && older && newer && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+          <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-5xl max-h-full flex flex-col">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+              <h2 className="font-semibold text-gray-200 flex items-center">
+                <GitCompare className="w-4 h-4 mr-2 text-primary-500" />
+                Compare runs
+              </h2>
+              <button onClick={() => setComparing(false)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="overflow-y-auto p-4 space-y-4">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-3 font-medium w-40"></th>
+                    <th className="py-1 pr-3 font-medium">Older run</th>
+                    <th className="py-1 font-medium">Newer run</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runFields.map(field => {
+                    const a = field.value(older);
+                    const b = field.value(newer);
+                    const differs = field.label !== 'Date' && a !== b;
+                    return (
+                      <tr key={field.label} className={`border-t border-gray-800 align-top ${differs ? 'text-yellow-200' : 'text-gray-300'}`}>
+                        <td className="py-1.5 pr-3 text-gray-500">{field.label}</td>
+                        <td className="py-1.5 pr-3 break-words">{a}</td>
+                        <td className="py-1.5 break-words">{b}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="rounded-lg border border-gray-700 bg-gray-800/60">
+                <LineDiff before={older.markdown} after={newer.markdown} />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Info } from 'lucide-react';
+import { GenerationReport, InputTreatment } from '../types';
+
+interface GenerationReportPanelProps {
+  report: GenerationReport;
+}
+
+const treatmentClasses: Record<InputTreatment, string> = {
+  full: 'bg-green-900/40 text-green-300',
+  summarised: 'bg-yellow-900/40 text-yellow-300',
+  dropped: 'bg-red-900/40 text-red-300'
+};
+
+export const GenerationReportPanel: React.FC<GenerationReportPanelProps> = ({ report }) => {
+  const affected = report.inputs.filter(i => i.treatment !== 'full');
+
+  // Nothing worth reporting when every commit went in verbatim
+  if (affected.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-yellow-700/40 p-4 space-y-3">
+      <div className="flex items-start text-sm text-gray-300">
+        <Info className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-yellow-400" />
+        <span>
+          The commits exceeded the context budget (~{report.budgetTokens.toLocaleString()} tokens).
+          {' '}{affected.length} of {report.inputs.length} were summarised or dropped.
+        </span>
+      </div>
+      <ul className="space-y-1 max-h-40 overflow-y-auto pr-2">
+        {affected.map(input => (
+          <li key={input.commitId} className="text-xs flex items-start">
+            <span className={`mr-2 px-1.5 py-0.5 rounded font-bold uppercase ${treatmentClasses[input.treatment]}`}>
+              {input.treatment}
+            </span>
+            <span className="font-mono text-primary-400 mr-2">{input.hash.substring(0, 7)}</span>
+            <span className="text-gray-400 truncate" title={input.detail}>
+              {input.message.split('\n')[0]}{input.detail ? ` — ${input.detail}` : ''}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
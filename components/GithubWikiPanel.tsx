@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { BookOpen, Download, ExternalLink, Save, X } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { SavedCredentialSelect } from './SavedCredentialSelect';
+import { StoredCredential } from '../types';
+import { EMPTY_CREDENTIALS, ProviderCredentials } from '../services/commitProviders';
+import { githubProvider } from '../services/githubService';
+import { localGitProvider } from '../services/localGitService';
+import {
+  GithubWikiPage,
+  GithubWikiPageRef,
+  fetchGithubWikiPage,
+  saveGithubWikiPage
+} from '../services/githubWikiService';
+
+interface GithubWikiPanelProps {
+  mode: 'load' | 'save';
+  // The page last loaded or saved, used to prefill the form and for its version
+  target: GithubWikiPageRef | null;
+  markdown?: string;
+  credentials: Record<string, ProviderCredentials>;
+  onCredentialsChange: (providerId: string, credentials: ProviderCredentials) => void;
+  storedCredentials: StoredCredential[];
+  onLoaded?: (page: GithubWikiPage, target: GithubWikiPageRef) => void;
+  onSaved?: (target: GithubWikiPageRef) => void;
+}
+
+export const GithubWikiPanel: React.FC<GithubWikiPanelProps> = ({
+  mode,
+  target,
+  markdown = '',
+  credentials,
+  onCredentialsChange,
+  storedCredentials,
+  onLoaded,
+  onSaved
+}) => {
+  const githubCredentials = credentials[githubProvider.id] || EMPTY_CREDENTIALS;
+  const helperCredentials = credentials[localGitProvider.id] || EMPTY_CREDENTIALS;
+  const [repoUrl, setRepoUrl] = useState(target?.repoUrl || '');
+  const [page, setPage] = useState(target?.page || '');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [savedUrl, setSavedUrl] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      if (!repoUrl.trim() || !page.trim()) throw new Error('Enter the repository URL and a page name');
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Wiki request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLoadPage = () => run(async () => {
+    const loaded = await fetchGithubWikiPage(repoUrl, page, githubCredentials, helperCredentials);
+    const ref = { repoUrl: repoUrl.trim(), page: page.trim(), version: loaded.version };
+    onLoaded?.(loaded, ref);
+    if (!loaded.version) {
+      setMessage('The page does not exist yet. It will be created when you save.');
+    }
+  });
+
+  const handleSavePage = () => run(async () => {
+    const ref = { repoUrl: repoUrl.trim(), page: page.trim() };
+    // The version only applies to the page it was read from
+    const version = target && target.repoUrl === ref.repoUrl && target.page === ref.page ? target.version : null;
+    const saved = await saveGithubWikiPage(ref.repoUrl, ref.page, markdown, version, githubCredentials, helperCredentials);
+    onSaved?.({ ...ref, version: saved.version });
+    setSavedUrl(saved.url);
+    setMessage(version ? 'The wiki page was updated.' : 'The wiki page was created.');
+  });
+
+  return (
+    <div className="space-y-4">
+      <SavedCredentialSelect
+        storedCredentials={storedCredentials}
+        providerId={githubProvider.id}
+        url={repoUrl}
+        token={githubCredentials.token}
+        onSelect={(c) => onCredentialsChange(githubProvider.id, { token: c.token, baseUrl: c.baseUrl || githubCredentials.baseUrl })}
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          label="GitHub Token"
+          type="password"
+          placeholder="Needs write access to the repository"
+          value={githubCredentials.token}
+          onChange={(e) => onCredentialsChange(githubProvider.id, { ...githubCredentials, token: e.target.value })}
+        />
+        <Input
+          label={localGitProvider.token.label}
+          type="password"
+          placeholder={localGitProvider.token.placeholder}
+          value={helperCredentials.token}
+          onChange={(e) => onCredentialsChange(localGitProvider.id, { ...helperCredentials, token: e.target.value })}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2">
+          <Input
+            label="Repository URL"
+            placeholder="https://github.com/owner/repo"
+            value={repoUrl}
+            onChange={(e) => setRepoUrl(e.target.value)}
+          />
+        </div>
+        <Input label="Page" placeholder="Release Notes" value={page} onChange={(e) => setPage(e.target.value)} />
+      </div>
+
+      {error && <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300">{error}</div>}
+      {message && (
+        <div className="p-3 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300 flex items-center justify-between">
+          <span>{message}</span>
+          {savedUrl && (
+            <a href={savedUrl} target="_blank" rel="noreferrer" className="inline-flex items-center text-primary-400 hover:underline">
+              Open <ExternalLink className="w-3 h-3 ml-1" />
+            </a>
+          )}
+        </div>
+      )}
+
+      {mode === 'load' ? (
+        <Button className="w-full" onClick={handleLoadPage} isLoading={isBusy} icon={<Download className="w-4 h-4" />}>
+          Use Page as Existing Docs
+        </Button>
+      ) : (
+        <Button className="w-full" onClick={handleSavePage} isLoading={isBusy} disabled={!markdown} icon={<Save className="w-4 h-4" />}>
+          Save to Wiki
+        </Button>
+      )}
+
+      <p className="text-xs text-gray-500">
+        GitHub wikis are git repositories (<code>{'{repo}'}.wiki.git</code>) without an API, so pages are read and pushed
+        by the local git helper started with <code>npm run git-helper</code>. The wiki needs at least one page created on GitHub.
+      </p>
+    </div>
+  );
+};
+
+interface GithubWikiDialogProps extends GithubWikiPanelProps {
+  onClose: () => void;
+}
+
+export const GithubWikiDialog: React.FC<GithubWikiDialogProps> = ({ onClose, ...panelProps }) => (
+  <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+    <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-xl max-h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h2 className="font-semibold text-gray-200 flex items-center">
+          <BookOpen className="w-4 h-4 mr-2 text-primary-500" />
+          GitHub Wiki Page
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="overflow-y-auto p-4">
+        <GithubWikiPanel {...panelProps} />
+      </div>
+    </div>
+  </div>
+);
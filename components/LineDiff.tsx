@@ -0,0 +1,28 @@
+import React from 'react';
+import { diffLines, splitLines } from '../utils/diff';
+
+interface LineDiffProps {
+  before: string;
+  after: string;
+}
+
+const lineClasses = {
+  equal: 'text-gray-400',
+  insert: 'bg-green-900/30 text-green-200',
+  delete: 'bg-red-900/30 text-red-200 line-through decoration-red-400/40'
+};
+
+const linePrefix = { equal: ' ', insert: '+', delete: '-' };
+
+export const LineDiff: React.FC<LineDiffProps> = ({ before, after }) => {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  return (
+    <pre className="text-xs font-mono overflow-x-auto py-2">
+      {ops.map((op, i) => (
+        <div key={i} className={`px-3 whitespace-pre-wrap ${lineClasses[op.type]}`}>
+          {linePrefix[op.type]} {op.line}
+        </div>
+      ))}
+    </pre>
+  );
+};
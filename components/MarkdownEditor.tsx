@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Keystrokes closer together than this are undone as one step
+const UNDO_GROUP_MS = 1000;
+const MAX_UNDO_STEPS = 200;
+
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange }) => {
+  const [past, setPast] = useState<string[]>([]);
+  const [future, setFuture] = useState<string[]>([]);
+  const lastEditRef = useRef(0);
+
+  const handleEdit = (next: string) => {
+    const now = Date.now();
+    if (now - lastEditRef.current > UNDO_GROUP_MS) {
+      setPast(prev => [...prev, value].slice(-MAX_UNDO_STEPS));
+    }
+    lastEditRef.current = now;
+    setFuture([]);
+    onChange(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture([value, ...future]);
+    lastEditRef.current = 0;
+    onChange(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setFuture(future.slice(1));
+    setPast([...past, value]);
+    lastEditRef.current = 0;
+    onChange(future[0]);
+  };
+
+  // The browser's own undo stack does not survive controlled updates
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center space-x-1 px-3 py-1.5 border-b border-gray-700 bg-gray-900/30">
+        <button
+          onClick={undo}
+          disabled={past.length === 0}
+          className="p-1.5 text-gray-400 hover:text-primary-400 disabled:opacity-30 disabled:hover:text-gray-400"
+          title="Undo (Ctrl+Z)"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={redo}
+          disabled={future.length === 0}
+          className="p-1.5 text-gray-400 hover:text-primary-400 disabled:opacity-30 disabled:hover:text-gray-400"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex-1 grid grid-cols-2 min-h-0">
+        <textarea
+          className="h-full resize-none bg-gray-900 border-r border-gray-700 p-4 font-mono text-sm text-gray-100 focus:outline-none"
+          value={value}
+          onChange={(e) => handleEdit(e.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+        />
+        <div className="h-full overflow-y-auto p-6 bg-gray-800 prose prose-invert prose-sm max-w-none">
+          <ReactMarkdown>{value}</ReactMarkdown>
+        </div>
+      </div>
+    </div>
+  );
+};
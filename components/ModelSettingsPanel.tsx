@@ -0,0 +1,106 @@
+import React from 'react';
+import { Input } from './Input';
+import { LlmProviderId, ModelSettings } from '../types';
+import { llmProviders, getLlmProvider, defaultModelSettings } from '../services/llmRegistry';
+
+interface ModelSettingsPanelProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+  // The backend supplies the key and endpoint
+  usesBackend?: boolean;
+}
+
+export const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({ settings, onChange, usesBackend }) => {
+  const provider = getLlmProvider(settings.provider);
+
+  const update = (changes: Partial<ModelSettings>) => onChange({ ...settings, ...changes });
+
+  // Switching backends resets the model and endpoint to that backend's defaults
+  const handleProviderChange = (id: LlmProviderId) => {
+    onChange({ ...defaultModelSettings(id), temperature: settings.temperature });
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="w-full">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Provider</label>
+          <select
+            className="w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none"
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+          >
+            {llmProviders.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          label="Model"
+          placeholder={provider.defaultModel}
+          value={settings.model}
+          onChange={(e) => update({ model: e.target.value })}
+        />
+      </div>
+
+      {usesBackend ? (
+        <p className="text-xs text-gray-500">
+          Requests go through the backend, which supplies the API key and endpoint for {provider.label}.
+        </p>
+      ) : (
+        <>
+          {provider.defaultBaseUrl && (
+            <Input
+              label="Base URL"
+              placeholder={provider.defaultBaseUrl}
+              value={settings.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+            />
+          )}
+
+          <div>
+            <Input
+              label="API Key"
+              type="password"
+              placeholder="API key"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+            />
+            <p className="mt-1 text-xs text-gray-500">{provider.apiKeyHint}</p>
+          </div>
+        </>
+      )}
+
+      <div>
+        <Input
+          label="Context Budget (tokens)"
+          type="number"
+          min={16000}
+          step={1000}
+          value={settings.contextTokens}
+          onChange={(e) => update({ contextTokens: parseInt(e.target.value, 10) || 0 })}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Commit sets larger than this are summarised per commit before the document is written.
+          Lower it for small local models.
+        </p>
+      </div>
+
+      <div>
+        <div className="flex justify-between mb-1">
+          <label className="block text-sm font-medium text-gray-300">Temperature</label>
+          <span className="text-xs font-mono text-gray-400">{settings.temperature.toFixed(1)}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.1}
+          value={settings.temperature}
+          onChange={(e) => update({ temperature: parseFloat(e.target.value) })}
+          className="w-full accent-primary-500"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { GitPullRequest, Upload, X, ExternalLink } from 'lucide-react';
+import { Button } from './Button';
+import { Input, TextArea } from './Input';
+import { Commit, PullRequestContext, StoredCredential } from '../types';
+import { EMPTY_CREDENTIALS, ProviderCredentials, PublishResult, hasToken, resolveRepo } from '../services/commitProviders';
+import { commitProviders } from '../services/providerRegistry';
+import { WikiPageRef } from '../services/azureWikiService';
+import { GithubWikiPageRef } from '../services/githubWikiService';
+import { WikiPagePanel } from './WikiPagePanel';
+import { GithubWikiPanel } from './GithubWikiPanel';
+import { SavedCredentialSelect } from './SavedCredentialSelect';
+
+interface PublishDialogProps {
+  markdown: string;
+  commits: Commit[];
+  pullRequests: PullRequestContext[];
+  credentials: Record<string, ProviderCredentials>;
+  onCredentialsChange: (providerId: string, credentials: ProviderCredentials) => void;
+  storedCredentials: StoredCredential[];
+  wikiTarget: WikiPageRef | null;
+  onWikiSaved: (target: WikiPageRef) => void;
+  githubWikiTarget: GithubWikiPageRef | null;
+  onGithubWikiSaved: (target: GithubWikiPageRef) => void;
+  onClose: () => void;
+}
+
+const publishProviders = commitProviders.filter(p => p.publish);
+
+type Destination = 'pr' | 'wiki' | 'github-wiki';
+
+const DESTINATIONS: [Destination, string][] = [
+  ['pr', 'Pull Request'],
+  ['wiki', 'Azure DevOps Wiki'],
+  ['github-wiki', 'GitHub Wiki']
+];
+
+const selectClasses = "w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none";
+
+const defaultBranchName = () =>
+  `docs/commit2doc-${new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-')}`;
+
+const documentTitle = (markdown: string) =>
+  markdown.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1] || 'Update documentation';
+
+// Lists the inputs so reviewers can trace the document back to its commits
+const buildDescription = (commits: Commit[], pullRequests: PullRequestContext[]) => {
+  const lines = ['Documentation generated from the following commits:', ''];
+  commits.forEach(c => lines.push(`- \`${c.hash}\` ${c.message.split('\n')[0]}`));
+  if (pullRequests.length > 0) {
+    lines.push('', 'Related pull requests:', '');
+    pullRequests.forEach(pr => lines.push(`- ${pr.url ? `[!${pr.id}](${pr.url})` : `!${pr.id}`} ${pr.title}`));
+  }
+  return lines.join('\n');
+};
+
+export const PublishDialog: React.FC<PublishDialogProps> = ({
+  markdown,
+  commits,
+  pullRequests,
+  credentials,
+  onCredentialsChange,
+  storedCredentials,
+  wikiTarget,
+  onWikiSaved,
+  githubWikiTarget,
+  onGithubWikiSaved,
+  onClose
+}) => {
+  // A document loaded from a wiki most likely goes back there
+  const [destination, setDestination] = useState<Destination>(
+    wikiTarget ? 'wiki' : githubWikiTarget ? 'github-wiki' : 'pr'
+  );
+  const [providerId, setProviderId] = useState(publishProviders[0]?.id || '');
+  const provider = publishProviders.find(p => p.id === providerId);
+  const providerCredentials = credentials[providerId] || EMPTY_CREDENTIALS;
+
+  const [repoUrl, setRepoUrl] = useState('');
+  const [path, setPath] = useState('docs/DOCUMENTATION.md');
+  const [branch, setBranch] = useState(defaultBranchName);
+  const [baseBranch, setBaseBranch] = useState('');
+  const [title, setTitle] = useState(() => documentTitle(markdown));
+  const [description, setDescription] = useState(() => buildDescription(commits, pullRequests));
+
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<PublishResult | null>(null);
+
+  const handlePublish = async () => {
+    if (!provider?.publish) return;
+    if (!repoUrl || !path.trim() || !branch.trim()) {
+      setError('Repository URL, file path and branch are required');
+      return;
+    }
+
+    setIsPublishing(true);
+    setError('');
+    try {
+      if (!hasToken(provider, providerCredentials)) {
+        throw new Error(`A ${provider.label} token with write access is required to publish`);
+      }
+      const repo = resolveRepo(provider, repoUrl, providerCredentials);
+      setResult(await provider.publish(repo, {
+        path: path.trim(),
+        content: markdown,
+        branch: branch.trim(),
+        baseBranch,
+        commitMessage: `docs: ${title}`,
+        title,
+        description
+      }, providerCredentials));
+    } catch (err: any) {
+      setError(err.message || 'Failed to publish');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h2 className="font-semibold text-gray-200 flex items-center">
+            <Upload className="w-4 h-4 mr-2 text-primary-500" />
+            Publish
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex px-4 pt-3 space-x-2">
+          {DESTINATIONS.map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setDestination(id)}
+              className={`px-3 py-1.5 rounded-lg text-sm ${destination === id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {destination === 'wiki' ? (
+          <div className="overflow-y-auto p-4">
+            <WikiPagePanel
+              mode="save"
+              target={wikiTarget}
+              markdown={markdown}
+              credentials={credentials}
+              onCredentialsChange={onCredentialsChange}
+              storedCredentials={storedCredentials}
+              onSaved={onWikiSaved}
+            />
+          </div>
+        ) : destination === 'github-wiki' ? (
+          <div className="overflow-y-auto p-4">
+            <GithubWikiPanel
+              mode="save"
+              target={githubWikiTarget}
+              markdown={markdown}
+              credentials={credentials}
+              onCredentialsChange={onCredentialsChange}
+              storedCredentials={storedCredentials}
+              onSaved={onGithubWikiSaved}
+            />
+          </div>
+        ) : result ? (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-300">Pull request !{result.id} was created.</p>
+            <a
+              href={result.url}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center text-primary-400 hover:underline text-sm"
+            >
+              <GitPullRequest className="w-4 h-4 mr-2" />
+              Open pull request
+              <ExternalLink className="w-3 h-3 ml-1" />
+            </a>
+          </div>
+        ) : (
+          <div className="overflow-y-auto p-4 space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Host</label>
+                <select className={selectClasses} value={providerId} onChange={(e) => setProviderId(e.target.value)}>
+                  {publishProviders.map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <Input
+                  label="Token (write access)"
+                  type="password"
+                  placeholder={provider?.token.placeholder}
+                  value={providerCredentials.token}
+                  onChange={(e) => onCredentialsChange(providerId, { ...providerCredentials, token: e.target.value })}
+                />
+              </div>
+            </div>
+            <SavedCredentialSelect
+              storedCredentials={storedCredentials}
+              providerId={providerId}
+              url={repoUrl}
+              token={providerCredentials.token}
+              onSelect={(c) => onCredentialsChange(providerId, { token: c.token, baseUrl: c.baseUrl || providerCredentials.baseUrl })}
+            />
+            {provider?.baseUrl && (
+              <Input
+                label={provider.baseUrl.label}
+                placeholder={provider.baseUrl.placeholder}
+                value={providerCredentials.baseUrl}
+                onChange={(e) => onCredentialsChange(providerId, { ...providerCredentials, baseUrl: e.target.value })}
+              />
+            )}
+            <Input
+              label={provider?.repoUrl.label || 'Repository URL'}
+              placeholder={provider?.repoUrl.placeholder}
+              value={repoUrl}
+              onChange={(e) => setRepoUrl(e.target.value)}
+            />
+            <Input label="File Path" value={path} onChange={(e) => setPath(e.target.value)} />
+            <div className="grid grid-cols-2 gap-3">
+              <Input label="New Branch" value={branch} onChange={(e) => setBranch(e.target.value)} />
+              <Input
+                label="Target Branch"
+                placeholder="Default branch"
+                value={baseBranch}
+                onChange={(e) => setBaseBranch(e.target.value)}
+              />
+            </div>
+            <Input label="Title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            <TextArea
+              label="Description"
+              rows={6}
+              className="font-mono text-xs"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+
+            {error && (
+              <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300">{error}</div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={handlePublish}
+              isLoading={isPublishing}
+              icon={<GitPullRequest className="w-4 h-4" />}
+            >
+              Create Pull Request
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
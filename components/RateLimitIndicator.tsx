@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, Hourglass } from 'lucide-react';
+import { RateLimitState, subscribeRateLimits } from '../services/http';
+
+// Below this share of the limit the remaining count is highlighted
+const LOW_FRACTION = 0.1;
+
+// Remaining host API requests, and a notice while requests wait for a limit to reset
+export const RateLimitIndicator: React.FC = () => {
+  const [states, setStates] = useState<RateLimitState[]>([]);
+
+  useEffect(() => subscribeRateLimits(setStates), []);
+
+  if (states.length === 0) return null;
+
+  return (
+    <div className="space-y-1 text-xs text-gray-500">
+      {states.map(state => {
+        const isLow = state.remaining !== null && state.limit !== null && state.remaining < state.limit * LOW_FRACTION;
+        return (
+          <div key={state.host} className="flex items-center">
+            {state.waitingUntil ? (
+              <>
+                <Hourglass className="w-3 h-3 mr-1.5 text-yellow-400" />
+                <span className="text-yellow-400">
+                  Requests to {state.host} are paused until {state.waitingUntil.toLocaleTimeString()}
+                </span>
+              </>
+            ) : state.remaining !== null && (
+              <>
+                <Gauge className={`w-3 h-3 mr-1.5 ${isLow ? 'text-yellow-400' : ''}`} />
+                <span className={isLow ? 'text-yellow-400' : ''}>
+                  {state.host}: {state.remaining.toLocaleString()}
+                  {state.limit !== null && ` of ${state.limit.toLocaleString()}`} requests left
+                  {state.resetAt && `, resets at ${state.resetAt.toLocaleTimeString()}`}
+                </span>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
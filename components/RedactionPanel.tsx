@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck, EyeOff, Eye, Plus, Trash2, Settings2 } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Commit, RedactionSettings } from '../types';
+import {
+  BUILT_IN_RULES,
+  RedactionDecision,
+  RedactionFinding,
+  maskFor,
+  validatePattern
+} from '../services/redactionService';
+
+interface RedactionPanelProps {
+  commits: Commit[];
+  findings: RedactionFinding[];
+  decisions: Record<string, RedactionDecision>;
+  onDecide: (keys: string[], decision: RedactionDecision) => void;
+  settings: RedactionSettings;
+  onSettingsChange: (settings: RedactionSettings) => void;
+}
+
+// Shows the line a finding sits on with the value highlighted
+const FindingLine: React.FC<{ finding: RedactionFinding; masked: boolean }> = ({ finding, masked }) => {
+  const index = finding.line.indexOf(finding.value);
+  if (index === -1) {
+    return <span className="text-red-300">{masked ? maskFor(finding.ruleId) : finding.value}</span>;
+  }
+  return (
+    <>
+      {finding.line.substring(0, index)}
+      <span className={masked ? 'bg-red-900/50 text-red-200' : 'bg-green-900/50 text-green-200'}>
+        {masked ? maskFor(finding.ruleId) : finding.value}
+      </span>
+      {finding.line.substring(index + finding.value.length)}
+    </>
+  );
+};
+
+export const RedactionPanel: React.FC<RedactionPanelProps> = ({
+  commits,
+  findings,
+  decisions,
+  onDecide,
+  settings,
+  onSettingsChange
+}) => {
+  const [isEditingRules, setIsEditingRules] = useState(false);
+  const [ruleName, setRuleName] = useState('');
+  const [rulePattern, setRulePattern] = useState('');
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
+  // A value found several times in one commit is listed and decided once
+  const unique = findings.filter((f, i) => findings.findIndex(o => o.key === f.key) === i);
+  const unreviewed = unique.filter(f => !decisions[f.key]);
+
+  const toggleRule = (id: string) => {
+    const disabled = settings.disabledRuleIds.includes(id);
+    onSettingsChange({
+      ...settings,
+      disabledRuleIds: disabled ? settings.disabledRuleIds.filter(r => r !== id) : [...settings.disabledRuleIds, id]
+    });
+  };
+
+  const handleAddRule = () => {
+    const error = ruleName.trim() ? validatePattern(rulePattern) : 'Enter a name for the rule';
+    setRuleError(error);
+    if (error) return;
+    onSettingsChange({
+      ...settings,
+      customRules: [...settings.customRules, { id: crypto.randomUUID(), name: ruleName.trim(), pattern: rulePattern, builtIn: false }]
+    });
+    setRuleName('');
+    setRulePattern('');
+  };
+
+  const handleDeleteRule = (id: string) => {
+    onSettingsChange({
+      ...settings,
+      customRules: settings.customRules.filter(r => r.id !== id),
+      disabledRuleIds: settings.disabledRuleIds.filter(r => r !== id)
+    });
+  };
+
+  const rules = [...BUILT_IN_RULES, ...settings.customRules];
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start text-sm text-gray-300">
+          {unique.length === 0 ? (
+            <ShieldCheck className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-green-400" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-yellow-400" />
+          )}
+          <span>
+            {unique.length === 0
+              ? 'No secrets or personal data found in the selected commits.'
+              : `${unique.length} possible secret${unique.length === 1 ? '' : 's'} found, ${unreviewed.length} not reviewed. Values are masked unless you allow them.`}
+          </span>
+        </div>
+        <button
+          onClick={() => setIsEditingRules(!isEditingRules)}
+          className="text-gray-400 hover:text-white ml-2"
+          title="Detection rules"
+        >
+          <Settings2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isEditingRules && (
+        <div className="space-y-3 border border-gray-700 rounded-lg p-3 bg-gray-900/40">
+          <ul className="space-y-1">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-center justify-between text-sm">
+                <label className="flex items-center text-gray-300 overflow-hidden">
+                  <input
+                    type="checkbox"
+                    className="mr-2 accent-primary-500"
+                    checked={!settings.disabledRuleIds.includes(rule.id)}
+                    onChange={() => toggleRule(rule.id)}
+                  />
+                  <span className="truncate">{rule.name}</span>
+                  {!rule.builtIn && <span className="ml-2 font-mono text-xs text-gray-500 truncate">/{rule.pattern}/</span>}
+                </label>
+                {!rule.builtIn && (
+                  <button onClick={() => handleDeleteRule(rule.id)} className="text-gray-500 hover:text-red-400 p-1">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-2 gap-2">
+            <Input placeholder="Rule name" value={ruleName} onChange={(e) => setRuleName(e.target.value)} />
+            <Input
+              placeholder="Regex, e.g. CUST-\d{6}"
+              className="font-mono text-sm"
+              value={rulePattern}
+              onChange={(e) => setRulePattern(e.target.value)}
+            />
+          </div>
+          {ruleError && <p className="text-xs text-red-400">{ruleError}</p>}
+          <Button variant="secondary" size="sm" className="w-full" onClick={handleAddRule} icon={<Plus className="w-4 h-4" />}>
+            Add Rule
+          </Button>
+          <label className="flex items-center text-sm text-gray-300">
+            <input
+              type="checkbox"
+              className="mr-2 accent-primary-500"
+              checked={settings.blockUnreviewed}
+              onChange={(e) => onSettingsChange({ ...settings, blockUnreviewed: e.target.checked })}
+            />
+            Block generation while findings are not reviewed
+          </label>
+        </div>
+      )}
+
+      {unique.length > 0 && (
+        <>
+          <div className="max-h-64 overflow-y-auto pr-2 space-y-3">
+            {commits.map(commit => {
+              const own = unique.filter(f => f.commitId === commit.id);
+              if (own.length === 0) return null;
+              return (
+                <div key={commit.id} className="space-y-1">
+                  <div className="text-xs text-gray-400 truncate">
+                    <span className="font-mono text-primary-400 mr-2">{commit.hash.substring(0, 7)}</span>
+                    {commit.message.split('\n')[0]}
+                  </div>
+                  <ul className="space-y-1">
+                    {own.map(finding => {
+                      const decision = decisions[finding.key];
+                      return (
+                        <li key={finding.key} className="flex items-center justify-between bg-gray-900/50 rounded px-2 py-1.5">
+                          <div className="overflow-hidden mr-2">
+                            <span className={`text-xs font-bold mr-2 ${decision ? 'text-gray-500' : 'text-yellow-400'}`}>
+                              {finding.ruleName}
+                            </span>
+                            <div className="font-mono text-xs text-gray-400 truncate" title={finding.line}>
+                              <FindingLine finding={finding} masked={decision !== 'allow'} />
+                            </div>
+                          </div>
+                          <div className="flex flex-shrink-0 space-x-1">
+                            <button
+                              onClick={() => onDecide([finding.key], 'mask')}
+                              className={`p-1 rounded ${decision === 'mask' ? 'bg-red-900/50 text-red-300' : 'text-gray-500 hover:text-red-300'}`}
+                              title="Mask this value"
+                            >
+                              <EyeOff className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => onDecide([finding.key], 'allow')}
+                              className={`p-1 rounded ${decision === 'allow' ? 'bg-green-900/50 text-green-300' : 'text-gray-500 hover:text-green-300'}`}
+                              title="Not sensitive, send as is"
+                            >
+                              <Eye className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+          {unreviewed.length > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="w-full"
+              onClick={() => onDecide(unreviewed.map(f => f.key), 'mask')}
+              icon={<EyeOff className="w-4 h-4" />}
+            >
+              Mask All Unreviewed
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Send, History } from 'lucide-react';
+import { Button } from './Button';
+import { DocVersion } from '../types';
+
+interface RefinePanelProps {
+  versions: DocVersion[];
+  currentIndex: number;
+  isBusy: boolean;
+  onSelectVersion: (index: number) => void;
+  onRefine: (instruction: string) => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ versions, currentIndex, isBusy, onSelectVersion, onRefine }) => {
+  const [instruction, setInstruction] = useState('');
+  const current = versions[currentIndex];
+
+  const handleSubmit = () => {
+    if (!instruction.trim() || isBusy) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 p-3 space-y-3">
+      {current && (
+        <div className="flex items-center text-xs text-gray-400">
+          <History className="w-3.5 h-3.5 mr-2 flex-shrink-0" />
+          <button
+            onClick={() => onSelectVersion(currentIndex - 1)}
+            disabled={isBusy || currentIndex === 0}
+            className="p-1 hover:text-primary-400 disabled:opacity-30 disabled:hover:text-gray-400"
+            title="Previous version"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="mx-1 font-mono">{currentIndex + 1}/{versions.length}</span>
+          <button
+            onClick={() => onSelectVersion(currentIndex + 1)}
+            disabled={isBusy || currentIndex === versions.length - 1}
+            className="p-1 hover:text-primary-400 disabled:opacity-30 disabled:hover:text-gray-400"
+            title="Next version"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <span className="ml-2 truncate" title={current.label}>
+            {current.label} · {new Date(current.createdAt).toLocaleTimeString()}
+          </span>
+        </div>
+      )}
+      <div className="flex items-end space-x-2">
+        <textarea
+          className="flex-1 rounded-lg bg-gray-900 border border-gray-700 px-3 py-2 text-sm text-gray-100 placeholder-gray-500 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 resize-none"
+          rows={2}
+          placeholder='Refine the document, e.g. "shorten the overview" or "add a migration section"'
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isBusy}
+        />
+        <Button onClick={handleSubmit} disabled={isBusy || !instruction.trim()} icon={<Send className="w-4 h-4" />}>
+          Refine
+        </Button>
+      </div>
+    </div>
+  );
+};
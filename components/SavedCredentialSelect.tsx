@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StoredCredential } from '../types';
+import { matchCredential } from '../services/vaultService';
+
+interface SavedCredentialSelectProps {
+  storedCredentials: StoredCredential[];
+  providerId: string;
+  // Repository, project or organization URL the credential is picked for
+  url: string;
+  // Token currently in the field, which a typed value keeps over the same match
+  token: string;
+  onSelect: (credential: StoredCredential) => void;
+}
+
+const selectClasses = "w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none";
+
+// Picks the vault credential matching the URL when the match changes or the
+// token field is empty, and lets the user choose another one
+export const SavedCredentialSelect: React.FC<SavedCredentialSelectProps> = ({
+  storedCredentials,
+  providerId,
+  url,
+  token,
+  onSelect
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  // Match seen on the last URL change; null until the first one
+  const lastMatchId = useRef<string | null>(null);
+  const options = storedCredentials.filter(c => c.providerId === providerId);
+
+  useEffect(() => {
+    const match = matchCredential(storedCredentials, providerId, url);
+    const matchId = match?.id || '';
+    const changed = lastMatchId.current !== null && matchId !== lastMatchId.current;
+    lastMatchId.current = matchId;
+    if (!match || (!changed && token)) return;
+    setSelectedId(matchId);
+    onSelect(match);
+  }, [storedCredentials, providerId, url]);
+
+  if (options.length === 0) return null;
+
+  const handleChange = (id: string) => {
+    setSelectedId(id);
+    const credential = options.find(c => c.id === id);
+    if (credential) onSelect(credential);
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block text-sm font-medium text-gray-300 mb-1">Saved Credential</label>
+      <select className={selectClasses} value={selectedId} onChange={(e) => handleChange(e.target.value)}>
+        <option value="">Enter a token below...</option>
+        {options.map(c => (
+          <option key={c.id} value={c.id}>{c.name}{c.urlPrefix ? ` (${c.urlPrefix})` : ''}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { SectionChange, SectionChangeStatus } from '../utils/markdownSections';
+import { LineDiff } from './LineDiff';
+
+export interface SectionReviewProps {
+  changes: SectionChange[];
+  rejected: Set<string>;
+  onToggle: (key: string) => void;
+  onSetAll: (accept: boolean) => void;
+}
+
+const statusClasses: Record<SectionChangeStatus, string> = {
+  unchanged: 'bg-gray-700 text-gray-300',
+  modified: 'bg-yellow-900/40 text-yellow-300',
+  added: 'bg-green-900/40 text-green-300',
+  removed: 'bg-red-900/40 text-red-300'
+};
+
+export const SectionReview: React.FC<SectionReviewProps> = ({ changes, rejected, onToggle, onSetAll }) => {
+  const changed = changes.filter(c => c.status !== 'unchanged');
+  const unchangedCount = changes.length - changed.length;
+
+  if (changed.length === 0) {
+    return (
+      <div className="p-6 text-sm text-gray-400">
+        The update did not change any section of the existing document.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-400">
+        <span>
+          {changed.length} section{changed.length === 1 ? '' : 's'} changed
+          {unchangedCount > 0 && `, ${unchangedCount} unchanged`}
+        </span>
+        <div className="flex space-x-3 text-xs">
+          <button onClick={() => onSetAll(true)} className="hover:text-primary-400">Accept all</button>
+          <button onClick={() => onSetAll(false)} className="hover:text-primary-400">Reject all</button>
+        </div>
+      </div>
+
+      {changed.map(change => {
+        const accepted = !rejected.has(change.key);
+        return (
+          <div
+            key={change.key}
+            className={`rounded-lg border ${accepted ? 'border-gray-700' : 'border-gray-800 opacity-60'} bg-gray-900/40 overflow-hidden`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+              <div className="flex items-center overflow-hidden">
+                <span className={`mr-2 px-1.5 py-0.5 rounded text-xs font-bold uppercase ${statusClasses[change.status]}`}>
+                  {change.status}
+                </span>
+                <span className="text-sm text-gray-200 truncate">{change.heading}</span>
+              </div>
+              <button
+                onClick={() => onToggle(change.key)}
+                className={`flex items-center text-xs px-2 py-1 rounded ${accepted ? 'bg-primary-900/40 text-primary-300' : 'bg-gray-700 text-gray-300'}`}
+                title={accepted ? 'Keep the original text instead' : 'Use the updated text'}
+              >
+                {accepted ? <Check className="w-3 h-3 mr-1" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                {accepted ? 'Accepted' : 'Rejected'}
+              </button>
+            </div>
+            <LineDiff before={change.original || ''} after={change.updated || ''} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
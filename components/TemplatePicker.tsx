@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Copy, Save, X } from 'lucide-react';
+import { Button } from './Button';
+import { Input, TextArea } from './Input';
+import { DocTemplate } from '../types';
+import { createEmptyTemplate } from '../services/templateService';
+
+interface TemplatePickerProps {
+  templates: DocTemplate[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (template: DocTemplate) => void;
+  onDelete: (id: string) => void;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, selectedId, onSelect, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<DocTemplate | null>(null);
+  const selected = templates.find(t => t.id === selectedId) || templates[0];
+
+  const updateDraft = (changes: Partial<DocTemplate>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+  };
+
+  // Built-in templates are read-only; editing one starts a user-defined copy
+  const handleDuplicate = () => {
+    setDraft({ ...selected, id: crypto.randomUUID(), name: `${selected.name} (Copy)`, builtIn: false });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, sections: draft.sections.filter(s => s.trim()) });
+    onSelect(draft.id);
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-3 border border-gray-700 rounded-lg p-3 bg-gray-900/40">
+        <Input label="Template Name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+        <Input
+          label="Description"
+          placeholder="What kind of document this produces"
+          value={draft.description}
+          onChange={(e) => updateDraft({ description: e.target.value })}
+        />
+        <Input
+          label="Tone & Audience"
+          placeholder="e.g. Friendly, for non-technical stakeholders"
+          value={draft.tone}
+          onChange={(e) => updateDraft({ tone: e.target.value })}
+        />
+        <TextArea
+          label="Sections (one per line)"
+          rows={5}
+          className="font-mono text-sm"
+          value={draft.sections.join('\n')}
+          onChange={(e) => updateDraft({ sections: e.target.value.split('\n') })}
+        />
+        <TextArea
+          label="Instructions"
+          rows={3}
+          placeholder="Anything else the writer must follow"
+          value={draft.instructions}
+          onChange={(e) => updateDraft({ instructions: e.target.value })}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="secondary" size="sm" onClick={() => setDraft(null)} icon={<X className="w-4 h-4" />}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!draft.name.trim()} icon={<Save className="w-4 h-4" />}>
+            Save Template
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end space-x-2">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-300 mb-1">Template</label>
+          <select
+            className="w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none"
+            value={selected.id}
+            onChange={(e) => onSelect(e.target.value)}
+          >
+            <optgroup label="Built-in">
+              {templates.filter(t => t.builtIn).map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </optgroup>
+            {templates.some(t => !t.builtIn) && (
+              <optgroup label="My Templates">
+                {templates.filter(t => !t.builtIn).map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <button onClick={() => setDraft(createEmptyTemplate())} className="p-2 text-gray-400 hover:text-primary-400" title="New template">
+          <Plus className="w-4 h-4" />
+        </button>
+        {selected.builtIn ? (
+          <button onClick={handleDuplicate} className="p-2 text-gray-400 hover:text-primary-400" title="Customise a copy">
+            <Copy className="w-4 h-4" />
+          </button>
+        ) : (
+          <>
+            <button onClick={() => setDraft(selected)} className="p-2 text-gray-400 hover:text-primary-400" title="Edit template">
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={() => onDelete(selected.id)} className="p-2 text-gray-400 hover:text-red-400" title="Delete template">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">{selected.description}</p>
+    </div>
+  );
+};
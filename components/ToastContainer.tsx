@@ -0,0 +1,55 @@
+import React, { useEffect } from 'react';
+import { AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
+import { ToastMessage } from '../types';
+
+interface ToastContainerProps {
+  toasts: ToastMessage[];
+  onDismiss: (id: string) => void;
+}
+
+// Errors stay until dismissed; other toasts fade out on their own
+const AUTO_DISMISS_MS = 5000;
+
+const toastStyles: Record<ToastMessage['type'], { icon: React.ElementType; classes: string }> = {
+  success: { icon: CheckCircle2, classes: 'border-green-800 text-green-400' },
+  error: { icon: AlertCircle, classes: 'border-red-800 text-red-400' },
+  info: { icon: Info, classes: 'border-gray-700 text-primary-400' }
+};
+
+const Toast: React.FC<{ toast: ToastMessage; onDismiss: (id: string) => void }> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    if (toast.type === 'error') return;
+    const timer = setTimeout(() => onDismiss(toast.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, toast.type]);
+
+  const { icon: Icon, classes } = toastStyles[toast.type];
+
+  return (
+    <div
+      role={toast.type === 'error' ? 'alert' : 'status'}
+      className={`flex items-start bg-gray-800 border rounded-lg shadow-2xl p-3 animate-in fade-in slide-in-from-bottom-2 duration-300 ${classes}`}
+    >
+      <Icon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+      <div className="flex-1 min-w-0 text-sm">
+        {toast.title && <div className="font-semibold text-gray-100">{toast.title}</div>}
+        <div className="text-gray-300 break-words">{toast.text}</div>
+      </div>
+      <button onClick={() => onDismiss(toast.id)} className="ml-2 text-gray-500 hover:text-white">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onDismiss }) => {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] w-full max-w-sm space-y-2">
+      {toasts.map(toast => (
+        <Toast key={toast.id} toast={toast} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+};
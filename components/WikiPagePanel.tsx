@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { BookOpen, Download, ExternalLink, Save, X } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { SavedCredentialSelect } from './SavedCredentialSelect';
+import { StoredCredential } from '../types';
+import { EMPTY_CREDENTIALS, ProviderCredentials, hasToken } from '../services/commitProviders';
+import { azureProvider } from '../services/azureService';
+import {
+  AzureWiki,
+  WikiPage,
+  WikiPageRef,
+  fetchWikiPage,
+  listWikis,
+  normalizePagePath,
+  saveWikiPage
+} from '../services/azureWikiService';
+
+interface WikiPagePanelProps {
+  mode: 'load' | 'save';
+  // The page last loaded or saved, used to prefill the form and for its ETag
+  target: WikiPageRef | null;
+  markdown?: string;
+  credentials: Record<string, ProviderCredentials>;
+  onCredentialsChange: (providerId: string, credentials: ProviderCredentials) => void;
+  storedCredentials: StoredCredential[];
+  onLoaded?: (page: WikiPage, target: WikiPageRef) => void;
+  onSaved?: (target: WikiPageRef) => void;
+}
+
+const selectClasses = "w-full rounded-lg bg-gray-800 border border-gray-700 px-3 py-2 text-gray-100 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 transition-colors appearance-none";
+
+export const WikiPagePanel: React.FC<WikiPagePanelProps> = ({
+  mode,
+  target,
+  markdown = '',
+  credentials,
+  onCredentialsChange,
+  storedCredentials,
+  onLoaded,
+  onSaved
+}) => {
+  const azureCredentials = credentials[azureProvider.id] || EMPTY_CREDENTIALS;
+  const [projectUrl, setProjectUrl] = useState(target?.projectUrl || '');
+  const [wikis, setWikis] = useState<AzureWiki[]>(target ? [target.wiki] : []);
+  const [wikiId, setWikiId] = useState(target?.wiki.id || '');
+  const [path, setPath] = useState(target?.path || '');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [savedUrl, setSavedUrl] = useState('');
+
+  const wiki = wikis.find(w => w.id === wikiId);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      if (!hasToken(azureProvider, azureCredentials)) {
+        throw new Error(azureProvider.token.requiredMessage);
+      }
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Wiki request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLoadWikis = () => run(async () => {
+    const found = await listWikis(projectUrl, azureCredentials);
+    if (found.length === 0) throw new Error('This project has no wiki yet');
+    setWikis(found);
+    setWikiId(found[0].id);
+  });
+
+  const handleLoadPage = () => run(async () => {
+    if (!wiki || !path.trim()) throw new Error('Choose a wiki and a page path');
+    const page = await fetchWikiPage(wiki, path, azureCredentials);
+    const ref = { projectUrl, wiki, path: normalizePagePath(path), eTag: page?.eTag || null };
+    if (!page) {
+      onLoaded?.({ content: '', eTag: '', url: '' }, ref);
+      setMessage('The page does not exist yet. It will be created when you save.');
+      return;
+    }
+    onLoaded?.(page, ref);
+  });
+
+  const handleSavePage = () => run(async () => {
+    if (!wiki || !path.trim()) throw new Error('Choose a wiki and a page path');
+    const pagePath = normalizePagePath(path);
+    // The ETag only applies to the page it was read from
+    const eTag = target && target.wiki.id === wiki.id && target.path === pagePath ? target.eTag : null;
+    const saved = await saveWikiPage(wiki, pagePath, markdown, eTag, azureCredentials);
+    onSaved?.({ projectUrl, wiki, path: pagePath, eTag: saved.eTag });
+    setSavedUrl(saved.url);
+    setMessage(eTag ? 'The wiki page was updated.' : 'The wiki page was created.');
+  });
+
+  return (
+    <div className="space-y-4">
+      <SavedCredentialSelect
+        storedCredentials={storedCredentials}
+        providerId={azureProvider.id}
+        url={projectUrl}
+        token={azureCredentials.token}
+        onSelect={(c) => onCredentialsChange(azureProvider.id, { token: c.token, baseUrl: c.baseUrl || azureCredentials.baseUrl })}
+      />
+      <Input
+        label="Azure DevOps PAT"
+        type="password"
+        placeholder="Needs the 'Wiki (Read & Write)' scope"
+        value={azureCredentials.token}
+        onChange={(e) => onCredentialsChange(azureProvider.id, { ...azureCredentials, token: e.target.value })}
+      />
+      <div className="flex items-end space-x-2">
+        <div className="flex-1">
+          <Input
+            label="Project URL"
+            placeholder="https://dev.azure.com/org/project"
+            value={projectUrl}
+            onChange={(e) => setProjectUrl(e.target.value)}
+          />
+        </div>
+        <Button variant="secondary" onClick={handleLoadWikis} disabled={isBusy || !projectUrl}>
+          Load Wikis
+        </Button>
+      </div>
+      {wikis.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Wiki</label>
+            <select className={selectClasses} value={wikiId} onChange={(e) => setWikiId(e.target.value)}>
+              {wikis.map(w => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+          </div>
+          <Input label="Page Path" placeholder="/Features/Login" value={path} onChange={(e) => setPath(e.target.value)} />
+        </div>
+      )}
+
+      {error && <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg text-sm text-red-300">{error}</div>}
+      {message && (
+        <div className="p-3 bg-gray-800 border border-gray-700 rounded-lg text-sm text-gray-300 flex items-center justify-between">
+          <span>{message}</span>
+          {savedUrl && (
+            <a href={savedUrl} target="_blank" rel="noreferrer" className="inline-flex items-center text-primary-400 hover:underline">
+              Open <ExternalLink className="w-3 h-3 ml-1" />
+            </a>
+          )}
+        </div>
+      )}
+
+      {mode === 'load' ? (
+        <Button className="w-full" onClick={handleLoadPage} isLoading={isBusy} disabled={!wiki} icon={<Download className="w-4 h-4" />}>
+          Use Page as Existing Docs
+        </Button>
+      ) : (
+        <Button className="w-full" onClick={handleSavePage} isLoading={isBusy} disabled={!wiki || !markdown} icon={<Save className="w-4 h-4" />}>
+          Save to Wiki
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface WikiPageDialogProps extends WikiPagePanelProps {
+  onClose: () => void;
+}
+
+export const WikiPageDialog: React.FC<WikiPageDialogProps> = ({ onClose, ...panelProps }) => (
+  <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-6">
+    <div className="bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-xl max-h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+        <h2 className="font-semibold text-gray-200 flex items-center">
+          <BookOpen className="w-4 h-4 mr-2 text-primary-500" />
+          Azure DevOps Wiki Page
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="overflow-y-auto p-4">
+        <WikiPagePanel {...panelProps} />
+      </div>
+    </div>
+  </div>
+);
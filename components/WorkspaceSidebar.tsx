@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Upload, Download, Trash2, Pencil, X } from 'lucide-react';
+import { Workspace } from '../types';
+
+interface WorkspaceSidebarProps {
+  isOpen: boolean;
+  workspaces: Workspace[];
+  currentId: string | null;
+  error: string | null;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+export const WorkspaceSidebar: React.FC<WorkspaceSidebarProps> = ({
+  isOpen,
+  workspaces,
+  currentId,
+  error,
+  onClose,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const startRename = (workspace: Workspace) => {
+    setRenamingId(workspace.id);
+    setNameDraft(workspace.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId && nameDraft.trim()) onRename(renamingId, nameDraft.trim());
+    setRenamingId(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Allow importing the same file again
+    e.target.value = '';
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      <div className="w-80 h-full bg-gray-900 border-r border-gray-800 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-4 py-4 border-b border-gray-800">
+          <h2 className="font-semibold text-gray-200 flex items-center">
+            <FolderOpen className="w-4 h-4 mr-2 text-primary-500" />
+            Workspaces
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 p-3 border-b border-gray-800">
+          <button
+            onClick={onCreate}
+            className="flex-1 flex items-center justify-center text-sm py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white"
+          >
+            <Plus className="w-4 h-4 mr-1" /> New
+          </button>
+          <label className="flex-1 flex items-center justify-center text-sm py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 cursor-pointer">
+            <Upload className="w-4 h-4 mr-1" /> Import
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+
+        {error && (
+          <div className="m-3 p-3 bg-red-900/20 border border-red-800 rounded-lg text-xs text-red-300">{error}</div>
+        )}
+
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {workspaces.map(workspace => (
+            <li
+              key={workspace.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer ${workspace.id === currentId ? 'bg-gray-800 border border-gray-700' : 'hover:bg-gray-800/60 border border-transparent'}`}
+              onClick={() => renamingId !== workspace.id && onSelect(workspace.id)}
+            >
+              {renamingId === workspace.id ? (
+                <input
+                  autoFocus
+                  className="w-full bg-gray-900 border border-primary-500 rounded px-2 py-1 text-sm text-gray-100 focus:outline-none"
+                  value={nameDraft}
+                  onChange={(e) => setNameDraft(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                />
+              ) : (
+                <div className="flex items-center justify-between">
+                  <div className="overflow-hidden">
+                    <p className="text-sm text-gray-200 truncate">{workspace.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {workspace.commits.length} commit{workspace.commits.length === 1 ? '' : 's'} · {new Date(workspace.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                    <button onClick={() => startRename(workspace)} className="p-1 text-gray-400 hover:text-primary-400" title="Rename">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onExport(workspace.id)} className="p-1 text-gray-400 hover:text-primary-400" title="Export as JSON">
+                      <Download className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => onDelete(workspace.id)} className="p-1 text-gray-400 hover:text-red-400" title="Delete">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="flex-1 bg-black/50" onClick={onClose} />
+    </div>
+  );
+};
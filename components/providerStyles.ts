@@ -0,0 +1,24 @@
+import { ComponentType } from 'react';
+import { Cloud, FolderGit2, GitCommit, Github, Gitlab, Server } from 'lucide-react';
+
+// Icons and badge colors per commit provider id, kept here so the provider
+// services stay free of React and can run in the CLI and the backend
+
+interface ProviderStyle {
+  icon: ComponentType<{ className?: string }>;
+  // Tailwind classes for the source badge in the commit list
+  badgeClass: string;
+}
+
+const providerStyles: Record<string, ProviderStyle> = {
+  github: { icon: Github, badgeClass: 'bg-gray-700 text-white' },
+  azure: { icon: Cloud, badgeClass: 'bg-blue-900 text-blue-200' },
+  gitlab: { icon: Gitlab, badgeClass: 'bg-orange-900 text-orange-200' },
+  bitbucket: { icon: Server, badgeClass: 'bg-sky-900 text-sky-200' },
+  local: { icon: FolderGit2, badgeClass: 'bg-emerald-900 text-emerald-200' }
+};
+
+const DEFAULT_STYLE: ProviderStyle = { icon: GitCommit, badgeClass: 'bg-gray-700 text-white' };
+
+export const providerStyle = (providerId: string): ProviderStyle =>
+  providerStyles[providerId] || DEFAULT_STYLE;
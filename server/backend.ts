@@ -0,0 +1,290 @@
+// Backend that keeps the model keys and host tokens off the client. The React
+// app sends model requests and host API calls here (see services/backendService.ts)
+// and this process adds the secrets it reads from the environment.
+//
+//   BACKEND_USERS="alice:<token>,bob:<token>" GEMINI_API_KEY=... GITHUB_TOKEN=... npm run backend
+//
+// Every request must carry one of the user tokens. Host requests are only
+// forwarded to the hosts configured here, so the backend cannot be used to
+// reach arbitrary URLs with its credentials.
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ModelSettings } from '../types';
+import { commitProviders } from '../services/providerRegistry';
+import { getLlmProvider, llmProviders } from '../services/llmRegistry';
+import { errorKind } from '../services/errors';
+import { MODEL_KEY_ENV, MODEL_URL_ENV, hostCredentialsFromEnv } from './environment';
+
+interface BackendUser {
+  name: string;
+  token: string;
+}
+
+const PORT = parseInt(process.env.BACKEND_PORT || '8787', 10);
+const ALLOWED_ORIGIN = process.env.BACKEND_ALLOWED_ORIGIN || '*';
+
+// Request and response headers passed between the app and a host
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'if-match'];
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type', 'etag', 'x-ms-continuationtoken', 'x-oauth-scopes', 'retry-after',
+  'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset',
+  'ratelimit-limit', 'ratelimit-remaining', 'ratelimit-reset'
+];
+
+// Hosted services each provider talks to without a base URL, over https
+const DEFAULT_HOSTS: Record<string, string[]> = {
+  github: ['api.github.com'],
+  azure: ['dev.azure.com', '.visualstudio.com'],
+  gitlab: ['gitlab.com'],
+  bitbucket: []
+};
+
+interface AllowedRequest {
+  method: string;
+  path: RegExp;
+}
+
+// The host API calls the app makes: commit and pull request reads, token
+// checks and publishing. Anything else is refused, so the backend's tokens
+// cannot be used to delete or change other things on the host.
+const ALLOWED_REQUESTS: Record<string, AllowedRequest[]> = {
+  github: [
+    // GitHub Enterprise serves the API under /api/v3
+    { method: 'GET', path: /^(\/api\/v3)?\/(repos\/[^/]+\/[^/]+(\/.*)?|user)$/ },
+    { method: 'POST', path: /^(\/api\/v3)?\/repos\/[^/]+\/[^/]+\/(git\/refs|pulls)$/ },
+    { method: 'PUT', path: /^(\/api\/v3)?\/repos\/[^/]+\/[^/]+\/contents\/.+$/ }
+  ],
+  azure: [
+    { method: 'GET', path: /\/_apis\/(git\/.+|wiki\/.+|connectionData)$/ },
+    { method: 'POST', path: /\/_apis\/git\/repositories\/[^/]+\/(pushes|pullrequests)$/ },
+    { method: 'PUT', path: /\/_apis\/wiki\/wikis\/[^/]+\/pages$/ }
+  ],
+  gitlab: [
+    { method: 'GET', path: /\/api\/v4\/(projects\/.+|user|personal_access_tokens\/self)$/ }
+  ],
+  bitbucket: [
+    { method: 'GET', path: /\/rest\/api\/1\.0\/projects\/.+$/ }
+  ]
+};
+
+const parseUsers = (value: string): BackendUser[] =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    return { name: entry.substring(0, separator), token: entry.substring(separator + 1) };
+  }).filter(user => user.name && user.token);
+
+const USERS = parseUsers(process.env.BACKEND_USERS || '');
+
+const hosts = commitProviders
+  .filter(provider => !provider.direct)
+  .map(provider => {
+    const credentials = hostCredentialsFromEnv(provider.id);
+    const names = (DEFAULT_HOSTS[provider.id] || []).map(host => ({ protocol: 'https:', host }));
+    if (credentials.baseUrl) {
+      const { protocol, host } = new URL(credentials.baseUrl);
+      names.push({ protocol, host });
+    }
+    return { provider, credentials, names };
+  });
+
+// The scheme must match too, so tokens meant for https are never sent in
+// plain text. A leading dot matches any subdomain, e.g. {org}.visualstudio.com
+const findHost = (url: URL) =>
+  hosts.find(h => h.names.some(({ protocol, host }) =>
+    url.protocol === protocol && (host.startsWith('.') ? url.host.endsWith(host) : url.host === host)));
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+// Compares fixed-length digests: header values may hold non-ASCII bytes, so
+// equal string lengths do not mean equal buffer lengths for timingSafeEqual
+const digest = (token: string) => createHash('sha256').update(token).digest();
+
+const sameToken = (given: string, expected: string) =>
+  timingSafeEqual(digest(given), digest(expected));
+
+const authenticate = (request: IncomingMessage) => {
+  const given = (request.headers.authorization || '').replace(/^Bearer /, '');
+  return USERS.find(user => sameToken(given, user.token));
+};
+
+// Models the backend holds a key for; a base URL alone does not make one usable
+const availableModels = () => llmProviders.filter(p => process.env[MODEL_KEY_ENV[p.id]]).map(p => p.id);
+
+const handleStatus = (response: ServerResponse, user: BackendUser) => {
+  send(response, 200, {
+    user: user.name,
+    hosts: hosts.filter(h => h.credentials.token).map(h => h.provider.id),
+    models: availableModels()
+  });
+};
+
+// The request body of /api/generate, or a message saying what is wrong with it
+const parseGenerateRequest = (body: string): { systemInstruction: string; prompt: string; settings: ModelSettings } | string => {
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return 'The request body is not valid JSON';
+  }
+  const settings = data?.settings;
+  if (typeof data?.systemInstruction !== 'string' || typeof data.prompt !== 'string') {
+    return 'systemInstruction and prompt must be strings';
+  }
+  if (typeof settings !== 'object' || settings === null) {
+    return 'settings is required';
+  }
+  if (!availableModels().includes(settings.provider)) {
+    return `Model provider '${settings.provider}' is not configured on the backend`;
+  }
+  if (typeof settings.model !== 'string' || !settings.model || typeof settings.temperature !== 'number') {
+    return 'settings.model and settings.temperature are required';
+  }
+  return { systemInstruction: data.systemInstruction, prompt: data.prompt, settings };
+};
+
+// Streams the answer as server-sent events: { text } per chunk, { error, kind } on failure
+const handleGenerate = async (request: IncomingMessage, response: ServerResponse) => {
+  const parsed = parseGenerateRequest((await readBody(request)).toString('utf8'));
+  if (typeof parsed === 'string') {
+    send(response, 400, { message: parsed });
+    return;
+  }
+  const { systemInstruction, prompt, settings } = parsed;
+  const provider = getLlmProvider(settings.provider);
+
+  // The endpoint is not taken from the client, or it could have the key sent anywhere
+  const modelSettings: ModelSettings = {
+    ...settings,
+    provider: provider.id,
+    baseUrl: process.env[MODEL_URL_ENV[provider.id] || ''] || provider.defaultBaseUrl,
+    apiKey: process.env[MODEL_KEY_ENV[provider.id]] || ''
+  };
+
+  const controller = new AbortController();
+  response.on('close', () => controller.abort());
+  response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+
+  try {
+    await provider.generate({
+      systemInstruction,
+      prompt,
+      settings: modelSettings,
+      signal: controller.signal,
+      onChunk: (text) => response.write(`data: ${JSON.stringify({ text })}\n\n`)
+    });
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      console.error("Backend Generation Error:", error);
+      response.write(`data: ${JSON.stringify({ error: error.message || 'Generation failed', kind: errorKind(error) })}\n\n`);
+    }
+  }
+  response.end();
+};
+
+const handleFetch = async (request: IncomingMessage, response: ServerResponse, target: string | null) => {
+  let url: URL;
+  try {
+    url = new URL(target || '');
+  } catch {
+    send(response, 400, { message: 'Missing or invalid url parameter' });
+    return;
+  }
+
+  const host = findHost(url);
+  if (!host) {
+    send(response, 403, { message: `The backend is not configured for ${url.host}` });
+    return;
+  }
+
+  const method = request.method || 'GET';
+  const rules = ALLOWED_REQUESTS[host.provider.id] || [];
+  if (!rules.some(rule => rule.method === method)) {
+    send(response, 405, { message: `${method} requests are not forwarded to ${url.host}` });
+    return;
+  }
+  if (!rules.some(rule => rule.method === method && rule.path.test(url.pathname))) {
+    send(response, 403, { message: `The backend does not forward ${method} ${url.pathname}` });
+    return;
+  }
+
+  const headers: Record<string, string> = {};
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  });
+  if (host.credentials.token) {
+    Object.entries(host.provider.authHeaders(host.credentials)).forEach(([name, value]) => {
+      headers[name.toLowerCase()] = value;
+    });
+  }
+
+  const upstream = await fetch(url, {
+    method,
+    headers,
+    body: method === 'GET' || method === 'HEAD' ? undefined : await readBody(request)
+  });
+
+  const responseHeaders: Record<string, string> = {};
+  FORWARDED_RESPONSE_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders[name] = value;
+  });
+  response.writeHead(upstream.status, responseHeaders);
+  response.end(Buffer.from(await upstream.arrayBuffer()));
+};
+
+const server = createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Accept, Content-Type, If-Match');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  response.setHeader('Access-Control-Expose-Headers', FORWARDED_RESPONSE_HEADERS.join(', '));
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  try {
+    const user = authenticate(request);
+    if (!user) {
+      send(response, 401, { message: 'Invalid backend token' });
+      return;
+    }
+
+    const url = new URL(request.url || '/', `http://localhost:${PORT}`);
+    if (url.pathname === '/api/me') {
+      handleStatus(response, user);
+    } else if (url.pathname === '/api/generate' && request.method === 'POST') {
+      console.log(`${user.name}: generate`);
+      await handleGenerate(request, response);
+    } else if (url.pathname === '/api/fetch') {
+      console.log(`${user.name}: ${request.method} ${url.searchParams.get('url')}`);
+      await handleFetch(request, response, url.searchParams.get('url'));
+    } else {
+      send(response, 404, { message: `Unknown endpoint ${url.pathname}` });
+    }
+  } catch (error: any) {
+    console.error("Backend Error:", error);
+    if (!response.headersSent) send(response, 502, { message: error.message || 'Backend request failed' });
+    else response.end();
+  }
+});
+
+if (USERS.length === 0) {
+  console.error('Set BACKEND_USERS to a comma-separated list of name:token pairs');
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.log(`Backend listening on http://localhost:${PORT} for ${USERS.map(u => u.name).join(', ')}`);
+});
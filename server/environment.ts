@@ -0,0 +1,38 @@
+import { LlmProviderId } from '../types';
+import { ProviderCredentials } from '../services/commitProviders';
+
+// Environment variables the CLI and the backend read secrets from
+
+// Host token per commit provider id
+export const HOST_TOKEN_ENV: Record<string, string> = {
+  github: 'GITHUB_TOKEN',
+  azure: 'AZURE_DEVOPS_PAT',
+  gitlab: 'GITLAB_TOKEN',
+  bitbucket: 'BITBUCKET_TOKEN'
+};
+
+// API or collection base URL for self-hosted instances
+export const HOST_URL_ENV: Record<string, string> = {
+  github: 'GITHUB_API_URL',
+  azure: 'AZURE_DEVOPS_URL',
+  gitlab: 'GITLAB_URL',
+  bitbucket: 'BITBUCKET_URL'
+};
+
+// Model API key per LLM provider id
+export const MODEL_KEY_ENV: Record<LlmProviderId, string> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY'
+};
+
+// Endpoint override for HTTP model backends, e.g. a self-hosted Ollama server
+export const MODEL_URL_ENV: Partial<Record<LlmProviderId, string>> = {
+  openai: 'OPENAI_BASE_URL',
+  anthropic: 'ANTHROPIC_BASE_URL'
+};
+
+export const hostCredentialsFromEnv = (providerId: string): ProviderCredentials => ({
+  token: process.env[HOST_TOKEN_ENV[providerId]] || '',
+  baseUrl: process.env[HOST_URL_ENV[providerId]] || ''
+});
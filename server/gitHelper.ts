@@ -0,0 +1,97 @@
+// Small local HTTP service that lets the browser app read local repositories
+// (unpushed work, air-gapped clones) and edit GitHub wiki pages, which are
+// only reachable through git. Start it with `npm run git-helper` and paste the
+// printed token into the Local Git tab.
+//
+// It listens on 127.0.0.1 only and every request must carry the token, so
+// other web pages open in the browser cannot read your repositories.
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+import { existsSync, statSync } from 'fs';
+import { FetchModeId } from '../services/commitProviders';
+import { readCommit, readRange } from './localGit';
+import { readWikiPage, writeWikiPage } from './githubWiki';
+
+const PORT = parseInt(process.env.GIT_HELPER_PORT || '4319', 10);
+const TOKEN = process.env.GIT_HELPER_TOKEN || randomBytes(16).toString('hex');
+
+const RANGE_MODES: FetchModeId[] = ['range', 'branch', 'working'];
+
+const send = (response: ServerResponse, status: number, body?: unknown) => {
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-GitHub-Token',
+    'Content-Type': 'application/json'
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const checkRepoPath = (repoPath: string | null) => {
+  if (!repoPath || !existsSync(repoPath) || !statSync(repoPath).isDirectory()) {
+    throw new Error(`Repository path '${repoPath || ''}' does not exist`);
+  }
+  return repoPath;
+};
+
+const readJson = async (request: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+};
+
+// Wiki pages are pushed with the user's GitHub token, sent in its own header
+const handleWikiPage = async (request: IncomingMessage, params: URLSearchParams) => {
+  const token = request.headers['x-github-token'];
+  if (typeof token !== 'string' || !token) {
+    throw new Error('A GitHub token is required to access the wiki');
+  }
+  if (request.method === 'PUT') {
+    const { repoUrl, page, content, version } = await readJson(request);
+    if (typeof content !== 'string') throw new Error('Page content is required');
+    return writeWikiPage(String(repoUrl || ''), String(page || ''), content, version || null, token);
+  }
+  return readWikiPage(params.get('repoUrl') || '', params.get('page') || '', token);
+};
+
+const server = createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+  if (request.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(response, 401, { message: 'Invalid helper token' });
+    return;
+  }
+
+  const url = new URL(request.url || '/', `http://127.0.0.1:${PORT}`);
+  const params = url.searchParams;
+
+  try {
+    if (url.pathname === '/wiki-page') {
+      send(response, 200, await handleWikiPage(request, params));
+      return;
+    }
+
+    const repoPath = checkRepoPath(params.get('repo'));
+
+    if (url.pathname === '/commit') {
+      send(response, 200, await readCommit(repoPath, params.get('ref') || ''));
+    } else if (url.pathname === '/range') {
+      const mode = params.get('mode') as FetchModeId;
+      if (!RANGE_MODES.includes(mode)) throw new Error(`Unsupported mode '${mode}'`);
+      send(response, 200, { commits: await readRange(repoPath, mode, params.get('ref') || '') });
+    } else {
+      send(response, 404, { message: `Unknown endpoint ${url.pathname}` });
+    }
+  } catch (error: any) {
+    console.error("Git Helper Error:", error.message);
+    send(response, error.status || 400, { message: error.message });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Local git helper listening on http://127.0.0.1:${PORT}`);
+  console.log(`Token: ${TOKEN}`);
+});
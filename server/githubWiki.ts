@@ -0,0 +1,121 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ServiceError } from '../services/errors';
+import { GithubWikiPage } from '../services/githubWikiService';
+import { git } from './localGit';
+
+// GitHub wikis are separate git repositories ({repo}.wiki.git) without a REST
+// API, so the git helper reads and writes pages in a throwaway shallow clone.
+// A page's version is the blob id of its file, which plays the part of an
+// ETag: a save only goes through if the page still has the version it was
+// read at.
+
+// https only: the token is sent along with every clone and push
+const REPO_URL = /^(https:\/\/[^/\s]+\/[^/\s]+\/[^/\s]+?)(?:\.git)?\/?$/;
+
+const parseRepoUrl = (repoUrl: string) => {
+  const match = repoUrl.trim().match(REPO_URL);
+  if (!match) {
+    throw new Error("Invalid GitHub repository URL. Format should be https://github.com/owner/repo");
+  }
+  return match[1];
+};
+
+// GitHub stores the page "Release Notes" as Release-Notes.md, in the root
+const pageName = (page: string) => {
+  const name = page.trim().replace(/\.md$/i, '').replace(/\s+/g, '-');
+  if (!name || /[/\\]/.test(name) || /^[.-]/.test(name)) {
+    throw new Error(`Invalid wiki page name '${page}'`);
+  }
+  return name;
+};
+
+// The token goes into the environment rather than the clone URL, so it
+// neither shows up in the process list nor in .git/config
+const authEnv = (token: string): NodeJS.ProcessEnv => ({
+  ...process.env,
+  GIT_TERMINAL_PROMPT: '0',
+  GIT_CONFIG_COUNT: '1',
+  GIT_CONFIG_KEY_0: 'http.extraHeader',
+  GIT_CONFIG_VALUE_0: `Authorization: Basic ${Buffer.from(`x-access-token:${token}`).toString('base64')}`
+});
+
+const withClone = async <T>(
+  repoUrl: string,
+  token: string,
+  action: (dir: string, env: NodeJS.ProcessEnv) => Promise<T>
+): Promise<T> => {
+  const env = authEnv(token);
+  const parent = await mkdtemp(join(tmpdir(), 'commit2doc-wiki-'));
+  try {
+    try {
+      await git(parent, ['clone', '--quiet', '--depth', '1', '--', `${repoUrl}.wiki.git`, 'wiki'], [0], env);
+    } catch (error: any) {
+      // GitHub only creates the wiki repository with the first page
+      if (/not found/i.test(error.message)) {
+        throw new ServiceError('not-found', "The wiki was not found. Enable it and create its first page on GitHub, then try again.", 404);
+      }
+      throw error;
+    }
+    return await action(join(parent, 'wiki'), env);
+  } finally {
+    await rm(parent, { recursive: true, force: true });
+  }
+};
+
+const readVersion = async (dir: string, file: string) =>
+  (await git(dir, ['rev-parse', '--verify', '--quiet', `HEAD:${file}`], [0, 1])).trim() || null;
+
+export const readWikiPage = (repoUrl: string, page: string, token: string): Promise<GithubWikiPage> => {
+  const baseUrl = parseRepoUrl(repoUrl);
+  const name = pageName(page);
+
+  return withClone(baseUrl, token, async (dir) => {
+    const version = await readVersion(dir, `${name}.md`);
+    const content = version ? await readFile(join(dir, `${name}.md`), 'utf8') : '';
+    return { content, version, url: `${baseUrl}/wiki/${name}` };
+  });
+};
+
+// Creates the page when version is null; otherwise the page must still be at
+// that version
+export const writeWikiPage = (
+  repoUrl: string,
+  page: string,
+  content: string,
+  version: string | null,
+  token: string
+): Promise<GithubWikiPage> => {
+  const baseUrl = parseRepoUrl(repoUrl);
+  const name = pageName(page);
+  const file = `${name}.md`;
+
+  return withClone(baseUrl, token, async (dir, env) => {
+    const current = await readVersion(dir, file);
+    if (current !== version) {
+      throw new ServiceError('other', version
+        ? "The wiki page was changed by someone else since it was loaded. Load it again and regenerate before saving."
+        : "The wiki page already exists. Load it first so the update is based on its current content.", 409);
+    }
+
+    await writeFile(join(dir, file), content);
+    const url = `${baseUrl}/wiki/${name}`;
+    if (!(await git(dir, ['status', '--porcelain', '--', file])).trim()) {
+      return { content, version: current, url };
+    }
+
+    await git(dir, ['add', '--', file]);
+    await git(dir, ['commit', '--quiet', '-m', `${current ? 'Update' : 'Create'} ${name}`]);
+    try {
+      await git(dir, ['push', '--quiet', 'origin', 'HEAD'], [0], env);
+    } catch (error: any) {
+      // Someone pushed between the clone and the push
+      if (/failed to push|fast-forward/i.test(error.message)) {
+        throw new ServiceError('other', "The wiki changed while saving. Save again.", 409);
+      }
+      throw error;
+    }
+    return { content, version: await readVersion(dir, file), url };
+  });
+};
@@ -0,0 +1,141 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { Commit, CommitSource } from '../types';
+import { formatGitDiff } from '../utils/diff';
+import { FetchModeId, parseRange } from '../services/commitProviders';
+
+// Reads commits and uncommitted changes from a local repository with the git
+// binary. Used directly by the CLI and, for the browser app, through the git
+// helper process (server/gitHelper.ts). Produces the same Commit objects as the
+// hosted providers so the rest of the pipeline cannot tell the difference.
+
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+// Field separator for --format output; commit messages cannot contain NUL
+const SEP = '%x00';
+
+export const git = (
+  repoPath: string,
+  args: string[],
+  okExitCodes: number[] = [0],
+  env?: NodeJS.ProcessEnv
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    execFile('git', ['-C', repoPath, ...args], { maxBuffer: MAX_OUTPUT, env }, (error, stdout, stderr) => {
+      const code = error ? (typeof error.code === 'number' ? error.code : -1) : 0;
+      if (okExitCodes.includes(code)) {
+        resolve(stdout);
+      } else {
+        reject(new Error(stderr.trim().split('\n').pop() || error?.message || 'git failed'));
+      }
+    });
+  });
+
+// Refs come from users and end up as git arguments; one starting with a dash
+// would be read as an option (e.g. --output=<file>)
+const checkRef = (ref: string) => {
+  const trimmed = ref.trim();
+  if (!trimmed || trimmed.startsWith('-')) {
+    throw new Error(`Invalid git reference '${ref}'`);
+  }
+  return trimmed;
+};
+
+// Compares merge commits against their first parent, like a pull request would
+const readDiff = (repoPath: string, sha: string) =>
+  git(repoPath, ['show', '--format=', '--patch', '-M', '--diff-merges=first-parent', sha]);
+
+export const readCommit = async (repoPath: string, ref: string): Promise<Commit> => {
+  const sha = (await git(repoPath, ['rev-parse', '--verify', `${checkRef(ref)}^{commit}`])).trim();
+  const header = await git(repoPath, ['show', '-s', `--format=%H${SEP}%an${SEP}%aI${SEP}%B`, sha]);
+  const [, author, date, message] = header.split('\0');
+
+  return {
+    id: randomUUID(),
+    hash: sha.substring(0, 7),
+    message: message.trim(),
+    diff: formatGitDiff(await readDiff(repoPath, sha)),
+    author,
+    date,
+    source: CommitSource.LOCAL
+  };
+};
+
+// origin/HEAD when the repository was cloned, otherwise main or master
+const readDefaultBranch = async (repoPath: string): Promise<string> => {
+  const remoteHead = await git(repoPath, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'], [0, 1]);
+  if (remoteHead.trim()) return remoteHead.trim();
+
+  for (const branch of ['main', 'master']) {
+    const found = await git(repoPath, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], [0, 1]);
+    if (found.trim()) return branch;
+  }
+  throw new Error("Cannot determine the default branch. Use a range instead.");
+};
+
+const listRangeCommits = async (repoPath: string, base: string, head: string): Promise<string[]> => {
+  const output = await git(repoPath, ['rev-list', '--reverse', `${checkRef(base)}..${checkRef(head)}`]);
+  return output.split('\n').filter(Boolean);
+};
+
+// Staged and unstaged changes against HEAD plus untracked files, as one entry
+export const readWorkingChanges = async (repoPath: string, paths: string[] = []): Promise<Commit> => {
+  const pathspec = ['--', ...paths];
+  const tracked = await git(repoPath, ['diff', 'HEAD', '-M', ...pathspec]);
+
+  const untrackedFiles = (await git(repoPath, ['ls-files', '--others', '--exclude-standard', ...pathspec]))
+    .split('\n')
+    .filter(Boolean);
+  const untracked: string[] = [];
+  for (const file of untrackedFiles) {
+    // --no-index exits with 1 when the files differ, which they always do here
+    untracked.push(await git(repoPath, ['diff', '--no-index', '--', '/dev/null', file], [0, 1]));
+  }
+
+  const diff = formatGitDiff([tracked, ...untracked].join('\n'));
+  if (!diff) {
+    throw new Error("There are no uncommitted changes");
+  }
+  const author = (await git(repoPath, ['config', 'user.name'], [0, 1])).trim();
+
+  return {
+    id: randomUUID(),
+    hash: 'working',
+    message: 'Uncommitted changes',
+    diff,
+    author: author || undefined,
+    date: new Date().toISOString(),
+    source: CommitSource.LOCAL
+  };
+};
+
+// Commits are returned oldest first, like the hosted providers
+export const readRange = async (repoPath: string, mode: FetchModeId, ref: string): Promise<Commit[]> => {
+  let shas: string[] = [];
+
+  if (mode === 'range') {
+    const { base, head } = parseRange(ref);
+    shas = await listRangeCommits(repoPath, base, head);
+  } else if (mode === 'branch') {
+    const defaultBranch = await readDefaultBranch(repoPath);
+    const branch = ref.trim();
+    if (branch === defaultBranch || `origin/${branch}` === defaultBranch) {
+      throw new Error(`'${branch}' is the default branch. Use a range to select commits from it.`);
+    }
+    shas = await listRangeCommits(repoPath, defaultBranch, branch);
+  } else if (mode === 'working') {
+    return [await readWorkingChanges(repoPath, ref.split(/\s+/).filter(Boolean))];
+  } else {
+    throw new Error(`Local repositories do not support '${mode}'`);
+  }
+
+  if (shas.length === 0) {
+    throw new Error("No commits found for the given reference");
+  }
+
+  const commits: Commit[] = [];
+  for (const sha of shas) {
+    commits.push(await readCommit(repoPath, sha));
+  }
+  return commits;
+};
@@ -0,0 +1,58 @@
+import { LlmProvider, joinUrl, readServerSentEvents } from './llmProviders';
+import { SafetyBlockError, errorOfKind, errorFromResponse, fetchOrNetworkError } from './errors';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 8192;
+
+export const anthropicProvider: LlmProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: 'claude-sonnet-4-5',
+  defaultContextTokens: 200000,
+  defaultBaseUrl: 'https://api.anthropic.com',
+  apiKeyHint: 'Required. Requests are sent directly from the browser.',
+
+  generate: async ({ systemInstruction, prompt, settings, onChunk, signal }) => {
+    if (!settings.apiKey) {
+      throw new Error("An Anthropic API key is required");
+    }
+
+    const response = await fetchOrNetworkError(joinUrl(settings.baseUrl, 'v1/messages'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': settings.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      signal,
+      body: JSON.stringify({
+        model: settings.model,
+        stream: true,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        temperature: settings.temperature,
+        system: systemInstruction,
+        messages: [{ role: 'user', content: prompt }]
+      })
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Anthropic');
+    }
+
+    let text = '';
+    await readServerSentEvents(response, (data) => {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        onChunk(event.delta.text);
+      } else if (event.type === 'message_delta' && event.delta?.stop_reason === 'refusal') {
+        throw new SafetyBlockError("The model declined to answer this prompt.");
+      } else if (event.type === 'error') {
+        const kind = event.error?.type === 'rate_limit_error' ? 'rate-limit' : undefined;
+        throw errorOfKind(kind, event.error?.message || 'Anthropic stream error');
+      }
+    });
+    return text;
+  }
+};
@@ -1,205 +1,480 @@
 import { Commit, CommitSource } from '../types';
+import { createUnifiedPatch, formatFileDiff, FileChangeStatus } from '../utils/diff';
+import { HOST_CONCURRENCY, checkResponse, fetchJson, fetchJsonIfExists, fetchText, hostFetch, mapConcurrent, sendJson } from './http';
+import { withCommitCache } from './commitCache';
+import { AuthError, isTransientError } from './errors';
+import {
+  CommitProvider,
+  ProviderCredentials,
+  COMMIT_MODE,
+  parseRange,
+  parsePullRequestNumber
+} from './commitProviders';
 
-export interface AzureRepository {
-  id: string;
-  name: string;
-  webUrl: string;
+export interface AzureProject {
+  org: string;
   project: string;
+  // https://dev.azure.com/{org}, or the collection URL of an Azure DevOps Server
+  collectionUrl: string;
 }
 
-// Helper to parse Azure DevOps URL
+interface AzureRepo extends AzureProject {
+  repo: string;
+}
+
+const PAGE_SIZE = 100;
+
+// Azure DevOps rejects pull request descriptions longer than this
+const MAX_PR_DESCRIPTION_LENGTH = 4000;
+
+// Files larger than this are reported like binaries instead of being diffed
+const MAX_DIFFABLE_FILE_SIZE = 500000;
+
+// Helper to parse Azure DevOps URLs into the project and the path below it
 // Formats:
-// https://dev.azure.com/{org}/{project}/_git/{repo}
-// https://{org}.visualstudio.com/{project}/_git/{repo}
-const parseAzureUrl = (url: string) => {
+// https://dev.azure.com/{org}/{project}/...
+// https://{org}.visualstudio.com/{project}/...
+// {collectionUrl}/{project}/... when a server collection URL is set
+const splitAzureUrl = (url: string, collectionUrl: string): (AzureProject & { rest: string[] }) | null => {
+  const collection = collectionUrl.trim().replace(/\/+$/, '');
+  if (collection) {
+    if (!url.startsWith(`${collection}/`)) return null;
+    const parts = url.slice(collection.length).split(/[?#]/)[0].split('/').filter(p => p);
+    if (!parts[0]) return null;
+    return { org: collection.split('/').pop() || '', project: parts[0], collectionUrl: collection, rest: parts.slice(1) };
+  }
+
   try {
     const urlObj = new URL(url);
     const pathParts = urlObj.pathname.split('/').filter(p => p);
-    
-    let org = '';
-    let project = '';
-    let repo = '';
 
+    let org = '';
     if (urlObj.hostname.endsWith('visualstudio.com')) {
       org = urlObj.hostname.split('.')[0];
-      // Expected: /project/_git/repo
-      project = pathParts[0];
-      const gitIndex = pathParts.indexOf('_git');
-      if (gitIndex !== -1 && gitIndex + 1 < pathParts.length) {
-        repo = pathParts[gitIndex + 1];
-      }
     } else if (urlObj.hostname === 'dev.azure.com') {
-      // Expected: /org/project/_git/repo
-      org = pathParts[0];
-      project = pathParts[1];
-      const gitIndex = pathParts.indexOf('_git');
-      if (gitIndex !== -1 && gitIndex + 1 < pathParts.length) {
-        repo = pathParts[gitIndex + 1];
-      }
+      org = pathParts.shift() || '';
     }
 
-    if (!org || !project || !repo) return null;
+    const project = pathParts.shift();
+    if (!org || !project) return null;
 
-    return { org, project, repo };
+    return { org, project, collectionUrl: `https://dev.azure.com/${org}`, rest: pathParts };
   } catch (e) {
     return null;
   }
 };
 
-export const fetchAzureRepositories = async (orgInput: string, token: string): Promise<AzureRepository[]> => {
-  let baseUrl = '';
+export const parseAzureProjectUrl = (url: string, collectionUrl: string): AzureProject | null => {
+  const parsed = splitAzureUrl(url, collectionUrl);
+  if (!parsed) return null;
+  const { rest, ...project } = parsed;
+  return project;
+};
+
+// Expected: {project URL}/_git/{repo}
+const parseAzureUrl = (url: string, collectionUrl: string): AzureRepo | null => {
+  const parsed = splitAzureUrl(url, collectionUrl);
+  const gitIndex = parsed ? parsed.rest.indexOf('_git') : -1;
+  if (!parsed || gitIndex === -1 || !parsed.rest[gitIndex + 1]) return null;
+
+  const { rest, ...project } = parsed;
+  return { ...project, repo: rest[gitIndex + 1] };
+};
+
+// Azure DevOps REST API base for a repository
+const repoApiBase = ({ collectionUrl, project, repo }: AzureRepo) =>
+  `${collectionUrl}/${project}/_apis/git/repositories/${repo}`;
+
+const repoWebUrl = ({ collectionUrl, project, repo }: AzureRepo) =>
+  `${collectionUrl}/${project}/_git/${repo}`;
+
+const azureGet = async <T>(url: string, credentials: ProviderCredentials) =>
+  fetchJson<T>(url, azureProvider.authHeaders(credentials), 'Azure DevOps');
+
+// Determine base URL based on input format (name only, dev.azure.com url, or visualstudio.com url)
+const organizationUrl = (orgInput: string, credentials: ProviderCredentials) => {
   const cleanInput = orgInput.trim();
 
-  // Determine base URL based on input format (name only, dev.azure.com url, or visualstudio.com url)
-  if (cleanInput.includes('dev.azure.com')) {
+  if (credentials.baseUrl.trim()) {
+    return credentials.baseUrl.trim().replace(/\/+$/, '');
+  } else if (cleanInput.includes('dev.azure.com')) {
     const match = cleanInput.match(/dev\.azure\.com\/([^/]+)/);
     const orgName = match ? match[1] : cleanInput;
-    baseUrl = `https://dev.azure.com/${orgName}`;
+    return `https://dev.azure.com/${orgName}`;
   } else if (cleanInput.includes('visualstudio.com')) {
     const match = cleanInput.match(/([^.]+)\.visualstudio\.com/);
     const orgName = match ? match[1] : cleanInput;
-    baseUrl = `https://${orgName}.visualstudio.com`;
-  } else {
-    // Assume it's just the organization name, default to dev.azure.com
-    baseUrl = `https://dev.azure.com/${cleanInput}`;
+    return `https://${orgName}.visualstudio.com`;
+  }
+  // Assume it's just the organization name, default to dev.azure.com
+  return `https://dev.azure.com/${cleanInput}`;
+};
+
+// PAT scopes cannot be listed, so each is checked with a request that needs it
+const SCOPE_PROBES = [
+  { scope: 'Code (Read)', path: '/_apis/git/repositories?$top=1&api-version=7.1' },
+  { scope: 'Wiki (Read)', path: '/_apis/wiki/wikis?api-version=7.1' }
+];
+
+// Content of a file at a given commit, or null when it is binary or too large to diff
+const fetchFileAtVersion = async (
+  baseUrl: string,
+  path: string,
+  commitId: string,
+  credentials: ProviderCredentials
+): Promise<string | null> => {
+  const text = await fetchText(
+    `${baseUrl}/items?path=${encodeURIComponent(path)}` +
+    `&versionDescriptor.version=${commitId}&versionDescriptor.versionType=commit&api-version=7.1`,
+    azureProvider.authHeaders(credentials),
+    'Azure DevOps'
+  );
+
+  if (text.length > MAX_DIFFABLE_FILE_SIZE || text.includes('\0')) {
+    return null;
   }
+  return text;
+};
 
-  const authHeader = 'Basic ' + btoa(':' + token);
+// Azure reports change types such as "edit", "add", "delete" or "edit, rename"
+const toFileStatus = (changeType: string): FileChangeStatus => {
+  if (changeType.includes('rename')) return 'renamed';
+  if (changeType.includes('add')) return 'added';
+  if (changeType.includes('delete')) return 'removed';
+  return 'modified';
+};
+
+// The Azure API has no patch endpoint, so each changed file is fetched at the
+// parent and at the commit and diffed locally.
+const buildFileDiff = async (
+  baseUrl: string,
+  change: any,
+  commitId: string,
+  parentId: string | undefined,
+  credentials: ProviderCredentials
+): Promise<string> => {
+  const path: string = change.item.path;
+  const status = toFileStatus(change.changeType);
+  const oldPath: string = change.sourceServerItem || change.originalPath || path;
 
   try {
-    const response = await fetch(`${baseUrl}/_apis/git/repositories?api-version=7.1`, {
-      headers: { 'Authorization': authHeader }
-    });
-
-    if (!response.ok) {
-      if (response.status === 401) throw new Error("Unauthorized. Please check your Personal Access Token (PAT).");
-      if (response.status === 404) throw new Error(`Organization not found at ${baseUrl}`);
-      throw new Error("Failed to fetch repositories.");
+    const oldText = status === 'added' || !parentId
+      ? ''
+      : await fetchFileAtVersion(baseUrl, oldPath, parentId, credentials);
+    const newText = status === 'removed'
+      ? ''
+      : await fetchFileAtVersion(baseUrl, path, commitId, credentials);
+
+    if (oldText === null || newText === null) {
+      return formatFileDiff(path, status);
     }
 
-    const data = await response.json();
-    
-    // Map to simple interface
-    return data.value.map((repo: any) => ({
-      id: repo.id,
-      name: repo.name,
-      webUrl: repo.webUrl,
-      project: repo.project.name
-    })).sort((a: AzureRepository, b: AzureRepository) => a.name.localeCompare(b.name));
-
-  } catch (error: any) {
-    console.error("Azure Repo List Error:", error);
-    throw error;
+    const patch = createUnifiedPatch(oldText, newText);
+    if (!patch && status === 'renamed') {
+      return formatFileDiff(path, status, `Renamed from ${oldPath} without content changes`);
+    }
+    return formatFileDiff(path, status, patch);
+  } catch (e) {
+    // Failures that may pass are thrown, so the commit is not cached without the file
+    if (isTransientError(e)) throw e;
+    return formatFileDiff(path, status, '(Could not fetch file content)');
   }
 };
 
-export const fetchAzureCommit = async (
-  repoUrl: string,
-  commitHash: string,
-  token: string
-): Promise<Commit> => {
-  const parsed = parseAzureUrl(repoUrl);
-  if (!parsed) {
-    throw new Error("Invalid Azure DevOps repository URL. Format should be https://dev.azure.com/{org}/{project}/_git/{repo}");
+const fetchCommitsInOrder = async (
+  repo: AzureRepo,
+  commitIds: string[],
+  credentials: ProviderCredentials
+): Promise<Commit[]> => {
+  const commits: Commit[] = [];
+  for (const commitId of commitIds) {
+    commits.push(await azureProvider.fetchCommit(repo, commitId, credentials));
+  }
+  return commits;
+};
+
+// The PR commits endpoint pages with a continuation token header
+const listPullRequestCommitIds = async (
+  baseUrl: string,
+  pullRequestId: number,
+  credentials: ProviderCredentials
+): Promise<string[]> => {
+  const commitIds: string[] = [];
+  let continuationToken: string | null = null;
+
+  do {
+    const tokenParam: string = continuationToken ? `&continuationToken=${encodeURIComponent(continuationToken)}` : '';
+    const { data, response } = await azureGet<{ value: any[] }>(
+      `${baseUrl}/pullRequests/${pullRequestId}/commits?$top=${PAGE_SIZE}${tokenParam}&api-version=7.1`,
+      credentials
+    );
+    commitIds.push(...data.value.map((c: any) => c.commitId));
+    continuationToken = response.headers.get('x-ms-continuationtoken');
+  } while (continuationToken);
+
+  // Azure lists PR commits newest first
+  return commitIds.reverse();
+};
+
+// Commits reachable from head but not from base, oldest first
+const listRangeCommitIds = async (
+  baseUrl: string,
+  base: string,
+  head: string,
+  credentials: ProviderCredentials
+): Promise<string[]> => {
+  const commitIds: string[] = [];
+
+  for (let skip = 0; ; skip += PAGE_SIZE) {
+    const { data } = await azureGet<{ value: any[] }>(
+      `${baseUrl}/commits?searchCriteria.itemVersion.version=${encodeURIComponent(head)}` +
+      `&searchCriteria.itemVersion.versionType=commit` +
+      `&searchCriteria.compareVersion.version=${encodeURIComponent(base)}` +
+      `&searchCriteria.compareVersion.versionType=commit` +
+      `&searchCriteria.$top=${PAGE_SIZE}&searchCriteria.$skip=${skip}&api-version=7.1`,
+      credentials
+    );
+    commitIds.push(...data.value.map((c: any) => c.commitId));
+
+    if (data.value.length < PAGE_SIZE) break;
   }
 
-  const { org, project, repo } = parsed;
-  
-  // Azure DevOps REST API base
-  const baseUrl = `https://dev.azure.com/${org}/${project}/_apis/git/repositories/${repo}`;
-  
+  return commitIds.reverse();
+};
+
+export const azureProvider: CommitProvider<AzureRepo> = {
+  id: 'azure',
+  source: CommitSource.AZURE,
+  label: 'Azure DevOps',
+  hint: "Provide Organization & PAT to list repos, or paste full URL manually. PAT requires 'Code (Read)' scope.",
+  repoUrl: { label: 'Repo URL (Manual)', placeholder: 'https://dev.azure.com/org/project/_git/repo' },
+  token: {
+    label: 'PAT (Required)',
+    placeholder: 'Personal Access Token',
+    requiredMessage: 'Personal Access Token (PAT) is required for Azure DevOps'
+  },
+  baseUrl: { label: 'Server Collection URL (Optional)', placeholder: 'Azure DevOps Server, e.g. https://tfs.example.com/tfs/DefaultCollection' },
+  repositoryScope: { label: 'Organization Name', placeholder: 'e.g. my-org or https://dev.azure.com/my-org' },
+  fetchModes: [
+    COMMIT_MODE,
+    { id: 'pr', label: 'Pull request', refLabel: 'Pull Request ID', refPlaceholder: 'e.g. 1234' },
+    { id: 'range', label: 'Between two commits (base..head)', refLabel: 'Commit Range', refPlaceholder: 'e.g. 1a2b3c..4d5e6f' }
+  ],
+  invalidUrlMessage: "Invalid Azure DevOps repository URL. Format should be https://dev.azure.com/{org}/{project}/_git/{repo}",
+
+  parseRepoUrl: (url, { baseUrl }) => parseAzureUrl(url, baseUrl),
+
   // Auth Header (Basic Auth with PAT)
   // Username can be anything, password is the PAT
-  const authHeader = 'Basic ' + btoa(':' + token);
+  authHeaders: ({ token }) => ({ 'Authorization': 'Basic ' + btoa(':' + token) }),
 
-  try {
-    // 1. Fetch Commit Details
-    const commitResponse = await fetch(
-      `${baseUrl}/commits/${commitHash}?api-version=7.1`,
-      {
-        headers: {
-          'Authorization': authHeader
-        }
+  listRepositories: async (orgInput, credentials) => {
+    const baseUrl = organizationUrl(orgInput, credentials);
+
+    try {
+      const { data } = await azureGet<{ value: any[] }>(`${baseUrl}/_apis/git/repositories?api-version=7.1`, credentials);
+
+      // Map to simple interface
+      return data.value.map((repo: any) => ({
+        id: repo.id,
+        name: repo.name,
+        webUrl: repo.webUrl,
+        group: repo.project.name
+      })).sort((a, b) => a.name.localeCompare(b.name));
+
+    } catch (error: any) {
+      console.error("Azure Repo List Error:", error);
+      throw error;
+    }
+  },
+
+  listPullRequests: async (repo, status, credentials) => {
+    try {
+      const { data } = await azureGet<{ value: any[] }>(
+        `${repoApiBase(repo)}/pullrequests?searchCriteria.status=${status}&$top=${PAGE_SIZE}&api-version=7.1`,
+        credentials
+      );
+
+      return data.value.map((pr: any) => ({
+        id: String(pr.pullRequestId),
+        title: pr.title,
+        description: pr.description || '',
+        sourceBranch: (pr.sourceRefName || '').replace('refs/heads/', ''),
+        targetBranch: (pr.targetRefName || '').replace('refs/heads/', ''),
+        webUrl: `${repoWebUrl(repo)}/pullrequest/${pr.pullRequestId}`
+      }));
+    } catch (error: any) {
+      console.error("Azure Pull Request List Error:", error);
+      throw error;
+    }
+  },
+
+  fetchCommit: withCommitCache('azure', async (repo, commitHash, credentials) => {
+    const baseUrl = repoApiBase(repo);
+
+    try {
+      // 1. Fetch Commit Details
+      const { data: commitData } = await azureGet<any>(
+        `${baseUrl}/commits/${commitHash.trim()}?api-version=7.1`,
+        credentials
+      );
+
+      // 2. Fetch the list of changed files
+      const { data: changesData } = await azureGet<{ changes?: any[] }>(
+        `${baseUrl}/commits/${commitData.commitId}/changes?api-version=7.1`,
+        credentials
+      );
+
+      const changes = (changesData.changes || []).filter((change: any) => !change.item.isFolder);
+      const parentId: string | undefined = commitData.parents?.[0];
+
+      // 3. Diff each file against the first parent, a few files at a time
+      const fileDiffs = await mapConcurrent(changes, HOST_CONCURRENCY, change =>
+        buildFileDiff(baseUrl, change, commitData.commitId, parentId, credentials)
+      );
+
+      return {
+        id: crypto.randomUUID(),
+        hash: commitData.commitId.substring(0, 7),
+        message: commitData.comment,
+        diff: fileDiffs.join('\n\n'),
+        author: commitData.author?.name,
+        date: commitData.author?.date,
+        source: CommitSource.AZURE
+      };
+
+    } catch (error: any) {
+      console.error("Azure Fetch Error:", error);
+      throw error;
+    }
+  }),
+
+  fetchRange: async (repo, mode, ref, credentials) => {
+    const baseUrl = repoApiBase(repo);
+
+    try {
+      if (mode === 'pr') {
+        const pullRequestId = parsePullRequestNumber(ref);
+        const { data: pr } = await azureGet<any>(
+          `${baseUrl}/pullrequests/${pullRequestId}?api-version=7.1`,
+          credentials
+        );
+        const commitIds = await listPullRequestCommitIds(baseUrl, pullRequestId, credentials);
+
+        return {
+          commits: await fetchCommitsInOrder(repo, commitIds, credentials),
+          pullRequest: {
+            id: String(pullRequestId),
+            title: pr.title,
+            description: pr.description || '',
+            url: `${repoWebUrl(repo)}/pullrequest/${pullRequestId}`,
+            source: CommitSource.AZURE
+          }
+        };
       }
-    );
 
-    if (!commitResponse.ok) {
-      if (commitResponse.status === 401) {
-        throw new Error("Unauthorized. Please check your Personal Access Token (PAT).");
+      const { base, head } = parseRange(ref);
+      const commitIds = await listRangeCommitIds(baseUrl, base, head, credentials);
+      if (commitIds.length === 0) {
+        throw new Error("No commits found between the given commits");
       }
-      const err = await commitResponse.json().catch(() => ({}));
-      throw new Error(err.message || "Failed to fetch commit from Azure DevOps");
+
+      return { commits: await fetchCommitsInOrder(repo, commitIds, credentials) };
+
+    } catch (error: any) {
+      console.error("Azure Fetch Error:", error);
+      throw error;
     }
+  },
 
-    const commitData = await commitResponse.json();
+  // A single push creates the branch from the base and commits the document;
+  // the pull request is opened from that branch
+  publish: async (repo, request, credentials) => {
+    const baseUrl = repoApiBase(repo);
+    const headers = azureProvider.authHeaders(credentials);
 
-    // 2. Fetch Changes (to construct a diff-like context)
-    const changesResponse = await fetch(
-      `${baseUrl}/commits/${commitHash}/changes?api-version=7.1`,
-      {
-        headers: {
-          'Authorization': authHeader
-        }
+    try {
+      let baseBranch = request.baseBranch.trim();
+      if (!baseBranch) {
+        const { data } = await azureGet<{ defaultBranch?: string }>(`${baseUrl}?api-version=7.1`, credentials);
+        baseBranch = (data.defaultBranch || 'refs/heads/main').replace('refs/heads/', '');
       }
-    );
 
-    let diffContent = "## Changes Summary\n";
-
-    if (changesResponse.ok) {
-        const changesData = await changesResponse.json();
-        const changes = changesData.changes || [];
-        
-        // Process changes
-        for (const change of changes) {
-            diffContent += `\nFile: ${change.item.path} [${change.changeType}]\n`;
-            
-            // If it's an edit or add, try to fetch the new content to give context to the AI
-            // We limit this to avoid massive payloads. 
-            // Real diffing is complex via API, so we provide the file content as context.
-            if (['edit', 'add'].includes(change.changeType) && !change.item.isFolder) {
-                try {
-                    // Fetch item content using the url provided in the change object
-                    // ensuring we pass auth headers
-                    const contentResponse = await fetch(change.item.url, {
-                        headers: { 'Authorization': authHeader }
-                    });
-                    
-                    if (contentResponse.ok) {
-                        const text = await contentResponse.text();
-                        // Simple heuristic to avoid binary files or massive dumps
-                        if (text.length < 30000 && !text.includes('\0')) {
-                            diffContent += "```\n" + text.substring(0, 5000) + (text.length > 5000 ? "\n... (truncated)" : "") + "\n```\n";
-                        } else {
-                            diffContent += "(File too large or binary, content skipped)\n";
-                        }
-                    }
-                } catch (e) {
-                    diffContent += "(Could not fetch file content)\n";
-                }
-            }
-            diffContent += "---\n";
-        }
-        
-        if (changes.length === 0) {
-            diffContent += "No file changes found in this commit.";
-        }
-
-    } else {
-        diffContent += "Could not fetch changes list from Azure API.";
+      const { data: refs } = await azureGet<{ value: { name: string; objectId: string }[] }>(
+        `${baseUrl}/refs?filter=${encodeURIComponent(`heads/${baseBranch}`)}&api-version=7.1`,
+        credentials
+      );
+      const baseRef = refs.value.find(r => r.name === `refs/heads/${baseBranch}`);
+      if (!baseRef) {
+        throw new Error(`Branch '${baseBranch}' was not found`);
+      }
+
+      const path = `/${request.path.replace(/^\/+/, '')}`;
+      const existing = await fetchJsonIfExists<unknown>(
+        `${baseUrl}/items?path=${encodeURIComponent(path)}` +
+        `&versionDescriptor.version=${encodeURIComponent(baseBranch)}&versionDescriptor.versionType=branch&$format=json&api-version=7.1`,
+        headers,
+        'Azure DevOps'
+      );
+
+      // For a new ref, oldObjectId is the commit the branch starts from
+      await sendJson(`${baseUrl}/pushes?api-version=7.1`, 'POST', headers, {
+        refUpdates: [{ name: `refs/heads/${request.branch}`, oldObjectId: baseRef.objectId }],
+        commits: [{
+          comment: request.commitMessage,
+          changes: [{
+            changeType: existing ? 'edit' : 'add',
+            item: { path },
+            newContent: { content: request.content, contentType: 'rawtext' }
+          }]
+        }]
+      }, 'Azure DevOps');
+
+      const { data: pr } = await sendJson<{ pullRequestId: number }>(`${baseUrl}/pullrequests?api-version=7.1`, 'POST', headers, {
+        sourceRefName: `refs/heads/${request.branch}`,
+        targetRefName: `refs/heads/${baseBranch}`,
+        title: request.title,
+        description: request.description.substring(0, MAX_PR_DESCRIPTION_LENGTH)
+      }, 'Azure DevOps');
+
+      return { id: String(pr.pullRequestId), url: `${repoWebUrl(repo)}/pullrequest/${pr.pullRequestId}` };
+
+    } catch (error: any) {
+      console.error("Azure Publish Error:", error);
+      throw error;
     }
+  },
+
+  validateToken: async (credentials, scopeUrl) => {
+    if (!scopeUrl.trim() && !credentials.baseUrl.trim()) {
+      throw new Error("Enter the organization URL the PAT belongs to");
+    }
+    const baseUrl = organizationUrl(scopeUrl, credentials);
+    const headers = azureProvider.authHeaders(credentials);
+
+    try {
+      const response = await hostFetch(`${baseUrl}/_apis/connectionData`, { headers });
+      // An invalid PAT gets the sign-in page with 203 instead of a 401
+      if (response.status === 203) {
+        throw new AuthError("Unauthorized. Please check your Azure DevOps access token.", 203);
+      }
+      await checkResponse(response, 'Azure DevOps');
+      const data = await response.json();
+
+      const scopes: string[] = [];
+      for (const probe of SCOPE_PROBES) {
+        if ((await hostFetch(`${baseUrl}${probe.path}`, { headers })).ok) scopes.push(probe.scope);
+      }
 
-    return {
-      id: crypto.randomUUID(),
-      hash: commitData.commitId.substring(0, 7),
-      message: commitData.comment,
-      diff: diffContent,
-      author: commitData.author?.name,
-      date: commitData.author?.date,
-      source: CommitSource.AZURE
-    };
-
-  } catch (error: any) {
-    console.error("Azure Fetch Error:", error);
-    throw error;
+      return {
+        user: data.authenticatedUser?.providerDisplayName || '',
+        scopes,
+        missing: SCOPE_PROBES.map(p => p.scope).filter(scope => !scopes.includes(scope)),
+        note: 'Azure DevOps cannot list PAT scopes, so read access was tested. Publishing also needs the Read & Write scopes.'
+      };
+    } catch (error: any) {
+      console.error("Azure Token Check Error:", error);
+      throw error;
+    }
   }
-};
\ No newline at end of file
+};
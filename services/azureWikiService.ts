@@ -0,0 +1,114 @@
+import { checkResponse, fetchJson, hostFetch } from './http';
+import { ServiceError } from './errors';
+import { ProviderCredentials } from './commitProviders';
+import { AzureProject, azureProvider, parseAzureProjectUrl } from './azureService';
+
+// Azure DevOps project wikis. GitHub wikis have no REST API and are handled
+// through the local git helper instead (see githubWikiService.ts).
+
+export interface AzureWiki extends AzureProject {
+  id: string;
+  name: string;
+}
+
+export interface WikiPage {
+  content: string;
+  // Version of the page the content was read at; updates must send it back
+  eTag: string;
+  url: string;
+}
+
+// The page a generated document was loaded from or will be saved to
+export interface WikiPageRef {
+  projectUrl: string;
+  wiki: AzureWiki;
+  path: string;
+  // Null until the page exists
+  eTag: string | null;
+}
+
+const HOST_NAME = 'Azure DevOps';
+
+const pagesUrl = (wiki: AzureWiki, path: string) =>
+  `${wiki.collectionUrl}/${wiki.project}/_apis/wiki/wikis/${encodeURIComponent(wiki.id)}/pages` +
+  `?path=${encodeURIComponent(normalizePagePath(path))}&api-version=7.1`;
+
+// Wiki page paths are absolute and have no .md extension
+export const normalizePagePath = (path: string) =>
+  `/${path.trim().replace(/^\/+/, '').replace(/\.md$/i, '')}`;
+
+export const listWikis = async (projectUrl: string, credentials: ProviderCredentials): Promise<AzureWiki[]> => {
+  const project = parseAzureProjectUrl(projectUrl, credentials.baseUrl);
+  if (!project) {
+    throw new Error("Invalid Azure DevOps project URL. Format should be https://dev.azure.com/{org}/{project}");
+  }
+
+  try {
+    const { data } = await fetchJson<{ value: any[] }>(
+      `${project.collectionUrl}/${project.project}/_apis/wiki/wikis?api-version=7.1`,
+      azureProvider.authHeaders(credentials),
+      HOST_NAME
+    );
+    return data.value.map((wiki: any) => ({ ...project, id: wiki.id, name: wiki.name }));
+  } catch (error: any) {
+    console.error("Azure Wiki List Error:", error);
+    throw error;
+  }
+};
+
+// Null when the page does not exist yet
+export const fetchWikiPage = async (
+  wiki: AzureWiki,
+  path: string,
+  credentials: ProviderCredentials
+): Promise<WikiPage | null> => {
+  try {
+    const response = await hostFetch(`${pagesUrl(wiki, path)}&includeContent=true`, {
+      headers: azureProvider.authHeaders(credentials)
+    });
+    if (response.status === 404) return null;
+    await checkResponse(response, HOST_NAME);
+
+    const page = await response.json();
+    return { content: page.content || '', eTag: response.headers.get('ETag') || '', url: page.remoteUrl || '' };
+  } catch (error: any) {
+    console.error("Azure Wiki Fetch Error:", error);
+    throw error;
+  }
+};
+
+// Creates the page when eTag is null. Otherwise the update only succeeds if
+// nobody changed the page since it was read at that eTag.
+export const saveWikiPage = async (
+  wiki: AzureWiki,
+  path: string,
+  content: string,
+  eTag: string | null,
+  credentials: ProviderCredentials
+): Promise<WikiPage> => {
+  try {
+    const headers: Record<string, string> = {
+      ...azureProvider.authHeaders(credentials),
+      'Content-Type': 'application/json'
+    };
+    if (eTag) headers['If-Match'] = eTag;
+
+    const response = await hostFetch(pagesUrl(wiki, path), {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ content })
+    });
+    if (response.status === 409 || response.status === 412) {
+      throw new ServiceError('other', eTag
+        ? "The wiki page was changed by someone else since it was loaded. Load it again and regenerate before saving."
+        : "The wiki page already exists. Load it first so the update is based on its current content.", response.status);
+    }
+    await checkResponse(response, HOST_NAME);
+
+    const page = await response.json();
+    return { content, eTag: response.headers.get('ETag') || '', url: page.remoteUrl || '' };
+  } catch (error: any) {
+    console.error("Azure Wiki Save Error:", error);
+    throw error;
+  }
+};
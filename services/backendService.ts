@@ -0,0 +1,103 @@
+import { LlmProviderId } from '../types';
+import { LlmRequest, readServerSentEvents } from './llmProviders';
+import { AuthError, errorFromResponse, errorOfKind, fetchOrNetworkError } from './errors';
+
+// Optional backend (server/backend.ts) that holds the model keys and host
+// tokens. When one is configured, model calls and host API requests go through
+// it and the browser only carries the user's own backend token.
+
+export interface BackendConfig {
+  url: string;
+  // Personal token issued to this user by whoever runs the backend
+  token: string;
+}
+
+// What the backend can do on this user's behalf
+export interface BackendStatus {
+  user: string;
+  hosts: string[];
+  models: LlmProviderId[];
+}
+
+const STORAGE_KEY = 'commit2doc.backend';
+
+// Replaced by Vite with COMMIT2DOC_BACKEND_URL at build time; an address, not
+// a secret. Undefined outside the browser build, so the CLI and the backend
+// itself never pick the variable up from their environment.
+declare const __COMMIT2DOC_BACKEND_URL__: string | undefined;
+const DEFAULT_BACKEND_URL = typeof __COMMIT2DOC_BACKEND_URL__ === 'string' ? __COMMIT2DOC_BACKEND_URL__ : '';
+
+export const loadBackendConfig = (): BackendConfig => {
+  // Only the browser app talks to a backend; Node callers fetch directly
+  if (typeof localStorage === 'undefined') {
+    return { url: '', token: '' };
+  }
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { url: DEFAULT_BACKEND_URL, token: '' };
+  } catch (e) {
+    return { url: DEFAULT_BACKEND_URL, token: '' };
+  }
+};
+
+export const saveBackendConfig = (config: BackendConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export const isBackendEnabled = () => loadBackendConfig().url.trim() !== '';
+
+const backendUrl = (config: BackendConfig, path: string) => `${config.url.trim().replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (config: BackendConfig) => ({ 'Authorization': `Bearer ${config.token}` });
+
+export const fetchBackendStatus = async (config: BackendConfig): Promise<BackendStatus> => {
+  const response = await fetchOrNetworkError(backendUrl(config, '/api/me'), { headers: authHeaders(config) });
+  if (response.status === 401) {
+    throw new AuthError("The backend rejected the token.", 401);
+  }
+  if (!response.ok) {
+    throw await errorFromResponse(response, 'Backend');
+  }
+  return response.json();
+};
+
+// Credentials for the host are added by the backend, so the browser's own
+// auth headers are left out
+export const fetchViaBackend = (url: string, init: RequestInit = {}): Promise<Response> => {
+  const config = loadBackendConfig();
+  const headers: Record<string, string> = { ...(init.headers as Record<string, string>) };
+  delete headers['Authorization'];
+  delete headers['PRIVATE-TOKEN'];
+
+  return fetchOrNetworkError(backendUrl(config, `/api/fetch?url=${encodeURIComponent(url)}`), {
+    ...init,
+    headers: { ...headers, ...authHeaders(config) }
+  });
+};
+
+// Same contract as LlmProvider.generate; the backend fills in the API key and
+// sends failures as { error, kind } so they arrive typed
+export const generateViaBackend = async ({ systemInstruction, prompt, settings, onChunk, signal }: LlmRequest): Promise<string> => {
+  const config = loadBackendConfig();
+  const response = await fetchOrNetworkError(backendUrl(config, '/api/generate'), {
+    method: 'POST',
+    headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+    signal,
+    body: JSON.stringify({ systemInstruction, prompt, settings: { ...settings, apiKey: '' } })
+  });
+
+  if (!response.ok) {
+    throw await errorFromResponse(response, 'Backend');
+  }
+
+  let text = '';
+  await readServerSentEvents(response, (data) => {
+    const event = JSON.parse(data);
+    if (event.error) {
+      throw errorOfKind(event.kind, event.error);
+    }
+    text += event.text;
+    onChunk(event.text);
+  });
+  return text;
+};
@@ -0,0 +1,251 @@
+import { Commit, CommitSource } from '../types';
+import { formatFileDiff, FileChangeStatus } from '../utils/diff';
+import { fetchJson } from './http';
+import { withCommitCache } from './commitCache';
+import {
+  CommitProvider,
+  ProviderCredentials,
+  COMMIT_MODE,
+  RANGE_MODE,
+  parseRange,
+  parsePullRequestNumber
+} from './commitProviders';
+
+interface BitbucketCommitResponse {
+  id: string;
+  message: string;
+  author: {
+    name: string;
+    displayName?: string;
+  };
+  authorTimestamp: number;
+}
+
+interface BitbucketSegment {
+  type: 'ADDED' | 'REMOVED' | 'CONTEXT';
+  lines: { line: string }[];
+}
+
+interface BitbucketHunk {
+  sourceLine: number;
+  sourceSpan: number;
+  destinationLine: number;
+  destinationSpan: number;
+  segments: BitbucketSegment[];
+}
+
+interface BitbucketDiff {
+  source: { toString: string } | null;
+  destination: { toString: string } | null;
+  binary?: boolean;
+  hunks?: BitbucketHunk[];
+}
+
+interface BitbucketPullRequestResponse {
+  id: number;
+  title: string;
+  description?: string;
+  fromRef: { displayId: string };
+  toRef: { displayId: string };
+  links: { self: { href: string }[] };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+interface BitbucketRepo {
+  apiBase: string;
+  projectKey: string;
+  repoSlug: string;
+}
+
+const PAGE_SIZE = 100;
+
+const repoApi = ({ apiBase, projectKey, repoSlug }: BitbucketRepo) =>
+  `${apiBase}/rest/api/1.0/projects/${projectKey}/repos/${repoSlug}`;
+
+const bitbucketGet = async <T>(repo: BitbucketRepo, path: string, credentials: ProviderCredentials): Promise<T> => {
+  const { data } = await fetchJson<T>(`${repoApi(repo)}${path}`, bitbucketProvider.authHeaders(credentials), 'Bitbucket');
+  return data;
+};
+
+// Bitbucket Server pages with start/limit and reports isLastPage
+const bitbucketGetAll = async <T>(repo: BitbucketRepo, path: string, credentials: ProviderCredentials): Promise<T[]> => {
+  const items: T[] = [];
+  const separator = path.includes('?') ? '&' : '?';
+  let start = 0;
+  for (;;) {
+    const page = await bitbucketGet<BitbucketPage<T>>(repo, `${path}${separator}limit=${PAGE_SIZE}&start=${start}`, credentials);
+    items.push(...page.values);
+    if (page.isLastPage || page.nextPageStart === undefined) break;
+    start = page.nextPageStart;
+  }
+  return items;
+};
+
+const toFileStatus = (diff: BitbucketDiff): FileChangeStatus => {
+  if (!diff.source) return 'added';
+  if (!diff.destination) return 'removed';
+  if (diff.source.toString !== diff.destination.toString) return 'renamed';
+  return 'modified';
+};
+
+// Bitbucket returns diffs as structured hunks; render them as a unified patch
+const toPatch = (diff: BitbucketDiff): string | undefined => {
+  if (diff.binary || !diff.hunks || diff.hunks.length === 0) return undefined;
+
+  const prefixes = { ADDED: '+', REMOVED: '-', CONTEXT: ' ' };
+
+  return diff.hunks.map(hunk => {
+    const header = `@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@`;
+    const lines = hunk.segments.flatMap(seg => seg.lines.map(l => prefixes[seg.type] + l.line));
+    return [header, ...lines].join('\n');
+  }).join('\n');
+};
+
+const toPullRequestSummary = (pr: BitbucketPullRequestResponse) => ({
+  id: String(pr.id),
+  title: pr.title,
+  description: pr.description || '',
+  sourceBranch: pr.fromRef.displayId,
+  targetBranch: pr.toRef.displayId,
+  webUrl: pr.links.self[0]?.href || ''
+});
+
+const fetchCommitsInOrder = async (
+  repo: BitbucketRepo,
+  commitIds: string[],
+  credentials: ProviderCredentials
+): Promise<Commit[]> => {
+  const commits: Commit[] = [];
+  for (const commitId of commitIds) {
+    commits.push(await bitbucketProvider.fetchCommit(repo, commitId, credentials));
+  }
+  return commits;
+};
+
+export const bitbucketProvider: CommitProvider<BitbucketRepo> = {
+  id: 'bitbucket',
+  source: CommitSource.BITBUCKET,
+  label: 'Bitbucket',
+  hint: "Bitbucket Server / Data Center. Use an HTTP access token with 'Repository read' permission.",
+  repoUrl: { label: 'Bitbucket Repository URL', placeholder: 'https://bitbucket.example.com/projects/KEY/repos/repo' },
+  token: { label: 'Access Token (Optional)', placeholder: 'HTTP access token' },
+  baseUrl: { label: 'Server Base URL (Optional)', placeholder: 'Defaults to everything before /projects in the URL' },
+  fetchModes: [
+    COMMIT_MODE,
+    RANGE_MODE,
+    { id: 'pr', label: 'Pull request', refLabel: 'Pull Request', refPlaceholder: 'e.g. 42' }
+  ],
+  invalidUrlMessage: "Invalid Bitbucket repository URL. Format should be https://bitbucket.example.com/projects/{KEY}/repos/{slug}",
+
+  // Helper to parse a Bitbucket Server / Data Center repository URL
+  // Formats:
+  // https://bitbucket.example.com/projects/{KEY}/repos/{slug}/browse
+  // https://bitbucket.example.com/scm/{key}/{slug}.git
+  // Anything before /projects or /scm is treated as the server's base URL,
+  // unless a base URL is given explicitly.
+  parseRepoUrl: (url, { baseUrl }) => {
+    const match = url.trim().match(/^(https?:\/\/.+?)\/(?:projects\/([^/]+)\/repos|scm\/([^/]+))\/([^/?#]+)/i);
+    if (!match) return null;
+
+    return {
+      apiBase: (baseUrl.trim() || match[1]).replace(/\/+$/, ''),
+      projectKey: (match[2] || match[3]).toUpperCase(),
+      repoSlug: match[4].replace(/\.git$/, '')
+    };
+  },
+
+  authHeaders: ({ token }) => {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (token) {
+      // HTTP access tokens and personal access tokens are both sent as bearer tokens
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    return headers;
+  },
+
+  listPullRequests: async (repo, status, credentials) => {
+    try {
+      const state = status === 'active' ? 'OPEN' : 'MERGED';
+      const page = await bitbucketGet<BitbucketPage<BitbucketPullRequestResponse>>(
+        repo,
+        `/pull-requests?state=${state}&limit=${PAGE_SIZE}`,
+        credentials
+      );
+      return page.values.map(toPullRequestSummary);
+    } catch (error: any) {
+      console.error("Bitbucket Pull Request List Error:", error);
+      throw error;
+    }
+  },
+
+  fetchCommit: withCommitCache('bitbucket', async (repo, commitHash, credentials) => {
+    try {
+      const sha = encodeURIComponent(commitHash.trim());
+      const data = await bitbucketGet<BitbucketCommitResponse>(repo, `/commits/${sha}`, credentials);
+      const diffData = await bitbucketGet<{ diffs: BitbucketDiff[] }>(repo, `/commits/${sha}/diff?contextLines=3`, credentials);
+
+      const fileDiffs = diffData.diffs.map(d => {
+        const path = (d.destination || d.source)?.toString || 'unknown';
+        return formatFileDiff(path, toFileStatus(d), toPatch(d));
+      });
+
+      return {
+        id: crypto.randomUUID(),
+        hash: data.id.substring(0, 7),
+        message: data.message,
+        diff: fileDiffs.join('\n\n'),
+        author: data.author.displayName || data.author.name,
+        date: new Date(data.authorTimestamp).toISOString(),
+        source: CommitSource.BITBUCKET
+      };
+
+    } catch (error: any) {
+      console.error("Bitbucket Fetch Error:", error);
+      throw error;
+    }
+  }),
+
+  fetchRange: async (repo, mode, ref, credentials) => {
+    try {
+      if (mode === 'pr') {
+        const pullRequestId = parsePullRequestNumber(ref);
+        const pr = await bitbucketGet<BitbucketPullRequestResponse>(repo, `/pull-requests/${pullRequestId}`, credentials);
+        const prCommits = await bitbucketGetAll<{ id: string }>(repo, `/pull-requests/${pullRequestId}/commits`, credentials);
+        const summary = toPullRequestSummary(pr);
+
+        return {
+          // Pull request commits are listed newest first
+          commits: await fetchCommitsInOrder(repo, prCommits.map(c => c.id).reverse(), credentials),
+          pullRequest: {
+            id: summary.id,
+            title: summary.title,
+            description: summary.description,
+            url: summary.webUrl,
+            source: CommitSource.BITBUCKET
+          }
+        };
+      }
+
+      const { base, head } = parseRange(ref);
+      const rangeCommits = await bitbucketGetAll<{ id: string }>(
+        repo,
+        `/commits?since=${encodeURIComponent(base)}&until=${encodeURIComponent(head)}`,
+        credentials
+      );
+      if (rangeCommits.length === 0) {
+        throw new Error("No commits found for the given reference");
+      }
+
+      return { commits: await fetchCommitsInOrder(repo, rangeCommits.map(c => c.id).reverse(), credentials) };
+
+    } catch (error: any) {
+      console.error("Bitbucket Fetch Error:", error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import { Commit } from '../types';
+import { ProviderCredentials } from './commitProviders';
+import { COMMIT_STORE, withStore } from './database';
+
+// Commits fetched from a host, kept by provider, repository and commit id so
+// adding one again needs no requests and works offline. A commit id always
+// names the same content, so entries never go stale.
+
+interface CachedCommit {
+  key: string;
+  commit: Omit<Commit, 'id'>;
+  cachedAt: string;
+}
+
+type FetchCommit<TRepo> = (repo: TRepo, commitHash: string, credentials: ProviderCredentials) => Promise<Commit>;
+
+// Branch and tag names move, so only refs that look like commit ids are cached
+const COMMIT_ID = /^[0-9a-f]{7,40}$/i;
+
+// The CLI and the backend run in Node, which has no IndexedDB
+const isCacheAvailable = () => typeof indexedDB !== 'undefined';
+
+const readCachedCommit = async (key: string): Promise<CachedCommit | undefined> => {
+  try {
+    return await withStore<CachedCommit | undefined>(COMMIT_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error("Commit Cache Load Error:", error);
+    return undefined;
+  }
+};
+
+const writeCachedCommit = async (key: string, commit: Commit): Promise<void> => {
+  const { id, ...rest } = commit;
+  try {
+    await withStore(COMMIT_STORE, 'readwrite', store => store.put({ key, commit: rest, cachedAt: new Date().toISOString() }));
+  } catch (error) {
+    console.error("Commit Cache Save Error:", error);
+  }
+};
+
+// Wraps a provider's fetchCommit; a failing cache only costs the request it would have saved
+export const withCommitCache = <TRepo>(providerId: string, fetchCommit: FetchCommit<TRepo>): FetchCommit<TRepo> =>
+  async (repo, commitHash, credentials) => {
+    const ref = commitHash.trim().toLowerCase();
+    if (!isCacheAvailable() || !COMMIT_ID.test(ref)) {
+      return fetchCommit(repo, commitHash, credentials);
+    }
+
+    const key = `${providerId}:${JSON.stringify(repo)}:${ref}`;
+    const cached = await readCachedCommit(key);
+    if (cached) {
+      // Every added commit gets its own id, as a fetched one would
+      return { ...cached.commit, id: crypto.randomUUID() };
+    }
+
+    const commit = await fetchCommit(repo, commitHash, credentials);
+    await writeCachedCommit(key, commit);
+    return commit;
+  };
+
+export const clearCommitCache = async (): Promise<void> => {
+  try {
+    await withStore(COMMIT_STORE, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error("Commit Cache Clear Error:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,170 @@
+import { Commit, CommitSource, PullRequestContext } from '../types';
+import { isBackendEnabled } from './backendService';
+
+// Contract every commit host (GitHub, Azure DevOps, ...) implements.
+// CommitManager renders its tabs and forms from these descriptions, so a new
+// host only needs a provider object and an entry in the registry.
+
+export interface ProviderCredentials {
+  token: string;
+  // Self-hosted instances; empty means "derive from the repository URL"
+  baseUrl: string;
+}
+
+export const EMPTY_CREDENTIALS: ProviderCredentials = { token: '', baseUrl: '' };
+
+// - commit: a single hash
+// - range:  base..head (or base...head)
+// - branch: a branch name, compared against the repository's default branch
+// - pr:     a pull request (merge request) number
+// - working: uncommitted changes in a local working copy, optionally limited to paths
+export type FetchModeId = 'commit' | 'range' | 'branch' | 'pr' | 'working';
+
+export interface FetchMode {
+  id: FetchModeId;
+  label: string;
+  refLabel: string;
+  refPlaceholder: string;
+  // The ref may be left empty, e.g. to take every uncommitted change
+  refOptional?: boolean;
+}
+
+export type PullRequestStatus = 'active' | 'completed';
+
+export interface RepositorySummary {
+  id: string;
+  name: string;
+  webUrl: string;
+  group: string;
+}
+
+export interface PullRequestSummary {
+  id: string;
+  title: string;
+  description: string;
+  sourceBranch: string;
+  targetBranch: string;
+  webUrl: string;
+}
+
+export interface CommitRangeResult {
+  commits: Commit[];
+  pullRequest?: PullRequestContext;
+}
+
+// A generated document committed to a new branch and proposed as a pull request
+export interface PublishRequest {
+  // Repository path of the Markdown file, e.g. docs/FEATURE.md
+  path: string;
+  content: string;
+  branch: string;
+  // Empty means the repository's default branch
+  baseBranch: string;
+  commitMessage: string;
+  title: string;
+  description: string;
+}
+
+export interface PublishResult {
+  id: string;
+  url: string;
+}
+
+// Result of checking a token before it is used
+export interface TokenCheck {
+  // Account the token belongs to
+  user: string;
+  // Granted scopes or permissions; null when the host cannot list them
+  scopes: string[] | null;
+  // Scopes this app needs that the token lacks
+  missing: string[];
+  note?: string;
+}
+
+export interface FieldDescription {
+  label: string;
+  placeholder: string;
+}
+
+export interface CommitProvider<TRepo = unknown> {
+  id: string;
+  source: CommitSource;
+  label: string;
+  // Talks to a service on this machine rather than a hosted API, so requests
+  // skip the backend and the token is always entered in the browser
+  direct?: boolean;
+  hint: string;
+  repoUrl: FieldDescription;
+  token: FieldDescription & {
+    // Set when the host cannot be used anonymously
+    requiredMessage?: string;
+  };
+  // Present when the host can be self-hosted under an arbitrary base URL
+  baseUrl?: FieldDescription;
+  // Present when repositories can be listed, e.g. for an Azure organization
+  repositoryScope?: FieldDescription;
+  fetchModes: FetchMode[];
+  invalidUrlMessage: string;
+
+  parseRepoUrl: (url: string, credentials: ProviderCredentials) => TRepo | null;
+  authHeaders: (credentials: ProviderCredentials) => Record<string, string>;
+  listRepositories?: (scope: string, credentials: ProviderCredentials) => Promise<RepositorySummary[]>;
+  // Methods, so a provider with a concrete repo type still fits the registry's
+  // CommitProvider<unknown>; callers pass the repo its own parseRepoUrl returned
+  listPullRequests?(repo: TRepo, status: PullRequestStatus, credentials: ProviderCredentials): Promise<PullRequestSummary[]>;
+  fetchCommit(repo: TRepo, commitHash: string, credentials: ProviderCredentials): Promise<Commit>;
+  fetchRange?(repo: TRepo, mode: FetchModeId, ref: string, credentials: ProviderCredentials): Promise<CommitRangeResult>;
+  publish?(repo: TRepo, request: PublishRequest, credentials: ProviderCredentials): Promise<PublishResult>;
+  // scopeUrl is a repository, project or organization URL the token is meant for
+  validateToken?: (credentials: ProviderCredentials, scopeUrl: string) => Promise<TokenCheck>;
+}
+
+export const COMMIT_MODE: FetchMode = {
+  id: 'commit',
+  label: 'Single commit',
+  refLabel: 'Commit Hash',
+  refPlaceholder: 'e.g. 8a2b3c'
+};
+
+export const RANGE_MODE: FetchMode = {
+  id: 'range',
+  label: 'Commit range (base..head)',
+  refLabel: 'Commit Range',
+  refPlaceholder: 'e.g. v1.2.0..main'
+};
+
+export const parseRange = (ref: string) => {
+  const match = ref.trim().match(/^(.+?)\.{2,3}(.+)$/);
+  if (!match) {
+    throw new Error("Invalid range. Use the form base..head");
+  }
+  return { base: match[1].trim(), head: match[2].trim() };
+};
+
+export const parsePullRequestNumber = (ref: string) => {
+  const number = parseInt(ref.trim().replace(/^[#!]/, ''), 10);
+  if (isNaN(number)) {
+    throw new Error("Pull request number must be numeric");
+  }
+  return number;
+};
+
+// With a backend, host tokens are held on the server instead
+export const hasToken = (provider: CommitProvider, credentials: ProviderCredentials) =>
+  !!credentials.token || (!provider.direct && isBackendEnabled());
+
+export const resolveRepo = <TRepo>(
+  provider: CommitProvider<TRepo>,
+  repoUrl: string,
+  credentials: ProviderCredentials
+): TRepo => {
+  const repo = provider.parseRepoUrl(repoUrl, credentials);
+  if (!repo) {
+    throw new Error(provider.invalidUrlMessage);
+  }
+  return repo;
+};
+
+// Encodes each segment of a repository path or branch name, keeping the slashes
+export const encodePathSegments = (path: string) =>
+  path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
@@ -0,0 +1,53 @@
+// The app's IndexedDB database, shared by workspaces, generation history and
+// the commit cache.
+
+const DB_NAME = 'commit2doc';
+const DB_VERSION = 3;
+
+export const WORKSPACE_STORE = 'workspaces';
+export const RUN_STORE = 'runs';
+export const COMMIT_STORE = 'commits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Each step only adds stores, so upgrading from any older version is safe
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RUN_STORE)) {
+          const runs = db.createObjectStore(RUN_STORE, { keyPath: 'id' });
+          runs.createIndex('workspaceId', 'workspaceId');
+        }
+        if (!db.objectStoreNames.contains(COMMIT_STORE)) {
+          db.createObjectStore(COMMIT_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request against a store and resolves with its result
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
@@ -0,0 +1,182 @@
+import { Commit, GenerationConfig, GenerationReport, ModelSettings } from '../types';
+import { generateText, getLlmProvider } from './llmRegistry';
+import { estimateTokens, prepareCommits } from './summarizationService';
+import { ServiceError } from './errors';
+
+const SYSTEM_INSTRUCTION = "You are an expert software documentation generator. You are precise, clear, and thorough.";
+
+export interface GenerationOptions {
+  // Called with the whole document so far each time more text arrives
+  onProgress?: (markdown: string) => void;
+  // Aborting keeps the text produced until then as the result
+  signal?: AbortSignal;
+  // Progress of the summarisation step that runs before writing
+  onStatus?: (message: string) => void;
+}
+
+export interface GenerationResult {
+  markdown: string;
+  report: GenerationReport | null;
+}
+
+// Fits the commits into the prompt, then streams the model's answer. Failures
+// are thrown, never returned as document text.
+const writeDocument = async (
+  commits: Commit[],
+  buildPrompt: (commitContext: string) => string,
+  settings: ModelSettings,
+  options: GenerationOptions,
+  status: string
+): Promise<GenerationResult> => {
+  const provider = getLlmProvider(settings.provider);
+  let partial = '';
+  let report: GenerationReport | null = null;
+
+  try {
+    // Fit the commits into what is left of the context window
+    const fixedPromptTokens = estimateTokens(buildPrompt(''));
+    const { prepared, budgetTokens } = await prepareCommits(commits, fixedPromptTokens, settings, {
+      signal: options.signal,
+      onStatus: options.onStatus
+    });
+
+    const commitContext = prepared
+      .filter(p => p.report.treatment !== 'dropped')
+      .map(p => p.block)
+      .join('\n');
+    const prompt = buildPrompt(commitContext);
+
+    report = {
+      inputs: prepared.map(p => p.report),
+      promptTokens: estimateTokens(prompt),
+      budgetTokens: budgetTokens + fixedPromptTokens
+    };
+
+    options.onStatus?.(status);
+    const text = await generateText({
+      systemInstruction: SYSTEM_INSTRUCTION,
+      prompt,
+      settings,
+      signal: options.signal,
+      onChunk: (chunk) => {
+        partial += chunk;
+        options.onProgress?.(partial);
+      }
+    });
+
+    if (!text) {
+      throw new ServiceError('other', "The model returned no content.");
+    }
+    return { markdown: text, report };
+  } catch (error: any) {
+    if (options.signal?.aborted) {
+      return { markdown: partial, report };
+    }
+    console.error(`${provider.label} Generation Error:`, error);
+    throw error;
+  }
+};
+
+export const generateDocumentation = async (
+  commits: Commit[],
+  config: GenerationConfig,
+  settings: ModelSettings,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+  const { template } = config;
+
+  let taskDescription = `
+You are a world-class Technical Writer. Your task is to write a "${template.name}" document based on the provided git commits.
+${template.description}
+Tone and audience: ${template.tone || 'Clear and professional.'}
+The documentation should be in Markdown format.
+${template.instructions ? `\nAdditional instructions:\n${template.instructions}\n` : ''}
+  `;
+
+  if (config.previousDocContent) {
+    taskDescription += `
+\nIMPORTANT: You have been provided with an EXISTING DOCUMENTATION file. 
+Your goal is to UPDATE this existing documentation to reflect the changes introduced by the new commits.
+Work section by section, where a section is a Markdown heading and the text up to the next heading:
+- Keep every existing heading exactly as written, including its level.
+- Copy sections the commits do not affect verbatim, character for character.
+- Rewrite only the sections the commits affect, keeping the style of the original.
+- Add new sections under new headings where needed, and remove a section only if the commits make it obsolete.
+Each section will be reviewed and accepted or rejected individually against the original.
+    `;
+  } else {
+    taskDescription += `
+\nSince no previous documentation was provided, create a brand new documentation file.
+${template.sections.length > 0
+  ? `Structure it with the following sections:\n${template.sections.map((section, i) => `${i + 1}. ${section}`).join('\n')}`
+  : 'Choose a structure that suits this kind of document.'}
+    `;
+  }
+
+  const pullRequestContext = config.pullRequests.length > 0
+    ? config.pullRequests.map(pr => `
+--- PULL REQUEST ${pr.id} ---
+Title: ${pr.title}
+Description:
+${pr.description || 'No description provided.'}
+-----------------------
+`).join('\n')
+    : 'None';
+
+  const buildPrompt = (commitContext: string) => `
+${taskDescription}
+
+User Provided Extra Context:
+"${config.extraInfo || 'N/A'}"
+
+User Provided Setup Instructions (incorporate this exactly if present):
+"${config.setupInstructions || 'N/A'}"
+
+Previous Documentation Content:
+${config.previousDocContent ? `\`\`\`markdown\n${config.previousDocContent}\n\`\`\`` : "None"}
+
+Pull Requests (use their title and description to understand the intent of the change):
+${pullRequestContext}
+
+Commits to Process:
+${commitContext}
+
+Output the final Markdown only. Do not wrap in JSON.
+`;
+
+  return writeDocument(commits, buildPrompt, settings, options, 'Writing documentation');
+};
+
+// Applies a follow-up instruction to an already generated document; the
+// commits are sent again so additions can draw on them
+export const refineDocumentation = async (
+  document: string,
+  instruction: string,
+  commits: Commit[],
+  config: GenerationConfig,
+  settings: ModelSettings,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+  const buildPrompt = (commitContext: string) => `
+You are a world-class Technical Writer revising a "${config.template.name}" document you wrote from the git commits below.
+Tone and audience: ${config.template.tone || 'Clear and professional.'}
+
+Apply the following instruction to the current document:
+"${instruction}"
+
+Change only what the instruction asks for and keep everything else as it is.
+Return the complete revised document, not just the changed parts.
+
+Current Document:
+\`\`\`markdown
+${document}
+\`\`\`
+
+Commits the document was written from (for reference):
+${commitContext}
+
+Output the final Markdown only. Do not wrap in JSON.
+`;
+
+  return writeDocument(commits, buildPrompt, settings, options, 'Revising documentation');
+};
@@ -0,0 +1,159 @@
+// Typed errors shared by the host, model and backend services, so callers can
+// tell an expired token from a rate limit or an unreachable server without
+// parsing messages.
+
+export type ErrorKind = 'auth' | 'not-found' | 'rate-limit' | 'network' | 'safety' | 'other';
+
+export class ServiceError extends Error {
+  readonly kind: ErrorKind;
+  // HTTP status, when the error came from a response
+  readonly status?: number;
+
+  constructor(kind: ErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export class AuthError extends ServiceError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string, status = 404) {
+    super('not-found', message, status);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends ServiceError {
+  // When the limit resets, if the service said so
+  readonly retryAt: Date | null;
+
+  constructor(message: string, retryAt: Date | null = null, status = 429) {
+    super('rate-limit', message, status);
+    this.name = 'RateLimitError';
+    this.retryAt = retryAt;
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+// The model refused the prompt or stopped its answer on a content filter
+export class SafetyBlockError extends ServiceError {
+  constructor(message: string) {
+    super('safety', message);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+// Rebuilds a typed error from its kind, e.g. after it crossed the backend
+export const errorOfKind = (kind: ErrorKind | undefined, message: string): ServiceError => {
+  switch (kind) {
+    case 'auth': return new AuthError(message);
+    case 'not-found': return new NotFoundError(message);
+    case 'rate-limit': return new RateLimitError(message);
+    case 'network': return new NetworkError(message);
+    case 'safety': return new SafetyBlockError(message);
+    default: return new ServiceError('other', message);
+  }
+};
+
+export const errorKind = (error: unknown): ErrorKind =>
+  error instanceof ServiceError ? error.kind : 'other';
+
+// Errors a later attempt may not hit: throttling, connectivity, server faults,
+// and tokens that can be fixed
+export const isTransientError = (error: unknown) =>
+  error instanceof ServiceError
+  && (error.kind === 'rate-limit' || error.kind === 'network' || error.kind === 'auth' || (error.status ?? 0) >= 500);
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Short heading for showing an error to the user
+export const errorTitle = (error: unknown): string => {
+  switch (errorKind(error)) {
+    case 'auth': return 'Access denied';
+    case 'not-found': return 'Not found';
+    case 'rate-limit': return 'Rate limited';
+    case 'network': return 'Connection failed';
+    case 'safety': return 'Blocked by the model';
+    default: return 'Something went wrong';
+  }
+};
+
+// Services report errors as { message } (GitHub, GitLab, Azure),
+// { error: { message } } (model APIs) or { errors: [{ message }] } (Bitbucket Server)
+const readErrorMessage = async (response: Response): Promise<string | undefined> => {
+  const body = await response.json().catch(() => ({}));
+  return body.message || body.error?.message || body.errors?.[0]?.message;
+};
+
+// Retry-After is either a number of seconds or an HTTP date; GitHub, GitLab
+// and Azure DevOps send the reset time as epoch seconds in (X-)RateLimit-Reset
+export const readRetryAt = (headers: Headers): Date | null => {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const date = isNaN(seconds) ? new Date(retryAfter) : new Date(Date.now() + seconds * 1000);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const reset = Number(headers.get('x-ratelimit-reset') || headers.get('ratelimit-reset'));
+  return reset ? new Date(reset * 1000) : null;
+};
+
+// GitHub answers an exhausted rate limit with 403, not 429
+export const isRateLimited = (response: Response) =>
+  response.status === 429 || (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0');
+
+export const errorFromResponse = async (response: Response, serviceName: string): Promise<ServiceError> => {
+  const { status, headers } = response;
+  const message = await readErrorMessage(response);
+
+  if (isRateLimited(response)) {
+    const retryAt = readRetryAt(headers);
+    const when = retryAt ? ` Try again after ${retryAt.toLocaleTimeString()}.` : ' Try again later.';
+    return new RateLimitError(`${serviceName} rate limit reached.${when}`, retryAt, status);
+  }
+  if (status === 401) {
+    return new AuthError(`Unauthorized. Please check your ${serviceName} access token.`, status);
+  }
+  if (status === 403) {
+    return new AuthError(message || `${serviceName} denied access. The token may lack the required scopes.`, status);
+  }
+  if (status === 404) {
+    // GitHub's bare "Not Found" also covers private repositories the token cannot see
+    return new NotFoundError(message && message !== 'Not Found'
+      ? message
+      : `${serviceName} could not find the resource. Check the URL, and that the token can access it.`);
+  }
+  return new ServiceError('other', message || `${serviceName} request failed (${status})`, status);
+};
+
+// fetch only rejects when no response arrived (offline, DNS, CORS); those
+// become NetworkErrors, while cancellation is passed through unchanged
+export const fetchOrNetworkError = async (url: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    let host = url;
+    try {
+      host = new URL(url).host;
+    } catch {
+      // Not an absolute URL; report it as given
+    }
+    throw new NetworkError(`Could not reach ${host}. Check the address and your connection.`);
+  }
+};
@@ -0,0 +1,322 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { createZip } from '../utils/zip';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'docx' | 'confluence';
+
+export interface ExportFormatOption {
+  id: ExportFormat;
+  label: string;
+  // Empty when the format is printed rather than downloaded
+  extension: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md' },
+  { id: 'html', label: 'HTML page', extension: 'html' },
+  { id: 'pdf', label: 'PDF (print)', extension: '' },
+  { id: 'docx', label: 'Word document', extension: 'docx' },
+  { id: 'confluence', label: 'Confluence storage format', extension: 'xml' }
+];
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const DOCUMENT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; line-height: 1.6; max-width: 860px; margin: 2rem auto; padding: 0 1.5rem; }
+  h1, h2 { border-bottom: 1px solid #d1d9e0; padding-bottom: .3em; }
+  code { font-family: SFMono-Regular, Consolas, "Liberation Mono", monospace; background: #eff1f3; padding: .2em .4em; border-radius: 4px; font-size: 85%; }
+  pre { background: #f6f8fa; padding: 1rem; border-radius: 6px; overflow: auto; }
+  pre code { background: none; padding: 0; }
+  blockquote { color: #59636e; border-left: .25em solid #d1d9e0; margin: 0; padding: 0 1em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d1d9e0; padding: 6px 13px; }
+  a { color: #0969da; }
+  @media print { body { margin: 0; max-width: none; } pre { white-space: pre-wrap; } }
+`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Renders with the same Markdown pipeline as the preview
+export const markdownToHtml = (markdown: string): string =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, null, markdown));
+
+const parseHtml = (html: string): HTMLElement =>
+  new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+
+const documentTitle = (html: string, fallback: string) =>
+  parseHtml(html).querySelector('h1')?.textContent?.trim() || fallback;
+
+export const toStandaloneHtml = (markdown: string, fallbackTitle: string): string => {
+  const body = markdownToHtml(markdown);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeXml(documentTitle(body, fallbackTitle))}</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+// Prints through a hidden frame; the browser's print dialog offers "Save as PDF"
+export const printAsPdf = (markdown: string, title: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    document.body.removeChild(frame);
+    throw new Error("Printing is not available in this browser.");
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(toStandaloneHtml(markdown, title));
+  frameWindow.document.close();
+  // Removing the frame earlier would cancel printing in browsers whose
+  // print() returns before the dialog closes
+  frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
+
+// --- Confluence storage format (XHTML with ac: macros) ---
+
+const VOID_ELEMENTS = new Set(['br', 'hr']);
+
+const toStorage = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeXml(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+
+  if (tag === 'pre') {
+    const code = el.querySelector('code');
+    const language = code?.className.match(/language-(\S+)/)?.[1];
+    // "]]>" cannot appear inside CDATA, so split it across two sections
+    const text = ((code || el).textContent || '').replace(/\n$/, '').replace(/]]>/g, ']]]]><![CDATA[>');
+    return `<ac:structured-macro ac:name="code">${
+      language ? `<ac:parameter ac:name="language">${escapeXml(language)}</ac:parameter>` : ''
+    }<ac:plain-text-body><![CDATA[${text}]]></ac:plain-text-body></ac:structured-macro>`;
+  }
+  if (tag === 'img') {
+    return `<ac:image${el.getAttribute('alt') ? ` ac:alt="${escapeXml(el.getAttribute('alt')!)}"` : ''}><ri:url ri:value="${escapeXml(el.getAttribute('src') || '')}" /></ac:image>`;
+  }
+
+  const attributes = Array.from(el.attributes)
+    .map(attr => ` ${attr.name}="${escapeXml(attr.value)}"`)
+    .join('');
+  if (VOID_ELEMENTS.has(tag)) return `<${tag}${attributes} />`;
+  return `<${tag}${attributes}>${Array.from(el.childNodes).map(toStorage).join('')}</${tag}>`;
+};
+
+export const toConfluenceStorage = (markdown: string): string =>
+  Array.from(parseHtml(markdownToHtml(markdown)).childNodes)
+    .map(toStorage)
+    .join('')
+    .trim();
+
+// --- Word (.docx) ---
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const run = (text: string, format: RunFormat) => {
+  const props = [
+    format.bold ? '<w:b/>' : '',
+    format.italic ? '<w:i/>' : '',
+    format.strike ? '<w:strike/>' : '',
+    format.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="EFF1F3"/>' : '',
+    format.link ? '<w:color w:val="0969DA"/><w:u w:val="single"/>' : ''
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const inlineRuns = (node: Node, format: RunFormat = {}): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\n/g, ' ');
+    return text ? run(text, format) : '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'br') return '<w:r><w:br/></w:r>';
+  if (tag === 'img') return run(el.getAttribute('alt') || '', { ...format, italic: true });
+  // Nested lists are written as their own paragraphs
+  if (tag === 'ul' || tag === 'ol') return '';
+
+  const next: RunFormat = {
+    ...format,
+    bold: format.bold || tag === 'strong' || tag === 'b' || tag === 'th',
+    italic: format.italic || tag === 'em' || tag === 'i',
+    strike: format.strike || tag === 'del' || tag === 's',
+    code: format.code || tag === 'code',
+    link: format.link || tag === 'a'
+  };
+  return Array.from(el.childNodes).map(child => inlineRuns(child, next)).join('');
+};
+
+// A4 width less the 1440 twip side margins set in the section properties
+const TEXT_WIDTH_TWIPS = 11906 - 2 * 1440;
+
+const paragraph = (runs: string, style?: string, indentTwips = 0) => {
+  const props = [
+    style ? `<w:pStyle w:val="${style}"/>` : '',
+    indentTwips ? `<w:ind w:left="${indentTwips}" w:hanging="360"/>` : ''
+  ].join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+const listParagraphs = (list: Element, depth: number): string => {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const start = parseInt(list.getAttribute('start') || '1', 10);
+  return Array.from(list.children)
+    .filter(item => item.tagName.toLowerCase() === 'li')
+    .map((item, i) => {
+      const marker = ordered ? `${start + i}. ` : '• ';
+      const nested = Array.from(item.children)
+        .filter(child => ['ul', 'ol'].includes(child.tagName.toLowerCase()))
+        .map(child => listParagraphs(child, depth + 1))
+        .join('');
+      return paragraph(run(marker, {}) + inlineRuns(item), undefined, 360 * (depth + 1)) + nested;
+    })
+    .join('');
+};
+
+const blockElements = (node: Node, style?: string): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return node.textContent?.trim() ? paragraph(inlineRuns(node), style) : '';
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  const heading = tag.match(/^h([1-6])$/);
+
+  if (heading) return paragraph(inlineRuns(el), `Heading${heading[1]}`);
+  if (tag === 'ul' || tag === 'ol') return listParagraphs(el, 0);
+  if (tag === 'pre') {
+    return (el.textContent || '')
+      .replace(/\n$/, '')
+      .split('\n')
+      .map(line => paragraph(run(line, {}), 'Code'))
+      .join('');
+  }
+  if (tag === 'blockquote') {
+    return Array.from(el.childNodes).map(child => blockElements(child, 'Quote')).join('');
+  }
+  if (tag === 'hr') {
+    return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D9E0"/></w:pBdr></w:pPr></w:p>';
+  }
+  if (tag === 'table') {
+    const rowCells = Array.from(el.querySelectorAll('tr')).map(row => Array.from(row.children));
+    const columns = Math.max(1, ...rowCells.map(cells => cells.length));
+    // Word requires the grid; columns share the text width evenly
+    const grid = `<w:tblGrid>${`<w:gridCol w:w="${Math.floor(TEXT_WIDTH_TWIPS / columns)}"/>`.repeat(columns)}</w:tblGrid>`;
+    const rows = rowCells.map(cells => {
+      const filled = cells.map(cell => `<w:tc>${paragraph(inlineRuns(cell))}</w:tc>`);
+      // Short rows are padded so every row spans the grid
+      const padding = `<w:tc>${paragraph('')}</w:tc>`.repeat(columns - cells.length);
+      return `<w:tr>${filled.join('')}${padding}</w:tr>`;
+    });
+    const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+      .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D9E0"/>`)
+      .join('');
+    return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>${grid}${rows.join('')}</w:tbl>${paragraph('')}`;
+  }
+  return paragraph(inlineRuns(el), style);
+};
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+${[40, 32, 28, 24, 22, 22].map((size, i) => `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`).join('\n')}
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="59636E"/></w:rPr></w:style>
+</w:styles>`;
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const DOCX_PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+export const toDocx = (markdown: string): Blob => {
+  const body = Array.from(parseHtml(markdownToHtml(markdown)).childNodes)
+    .map(node => blockElements(node))
+    .join('');
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = createZip([
+    { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', data: DOCX_PACKAGE_RELS },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: DOCX_DOCUMENT_RELS },
+    { name: 'word/styles.xml', data: DOCX_STYLES }
+  ]);
+  return new Blob([zip], { type: DOCX_MIME });
+};
+
+export const exportDocument = (markdown: string, format: ExportFormat, baseName: string) => {
+  const option = EXPORT_FORMATS.find(f => f.id === format)!;
+  const fileName = `${baseName}.${option.extension}`;
+
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([markdown], { type: 'text/markdown' }), fileName);
+      break;
+    case 'html':
+      downloadBlob(new Blob([toStandaloneHtml(markdown, baseName)], { type: 'text/html' }), fileName);
+      break;
+    case 'pdf':
+      printAsPdf(markdown, baseName);
+      break;
+    case 'docx':
+      downloadBlob(toDocx(markdown), fileName);
+      break;
+    case 'confluence':
+      downloadBlob(new Blob([toConfluenceStorage(markdown)], { type: 'application/xml' }), fileName);
+      break;
+  }
+};
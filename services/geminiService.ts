@@ -1,83 +1,75 @@
-import { GoogleGenAI } from "@google/genai";
-import { Commit, GenerationConfig } from '../types';
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import { LlmProvider } from './llmProviders';
+import { AuthError, NetworkError, RateLimitError, SafetyBlockError, isAbortError } from './errors';
 
-// Initialize the Gemini client
-// API Key is guaranteed to be in process.env.API_KEY by the environment
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Finish reasons that mean the answer was cut off by a content filter
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
 
-export const generateDocumentation = async (
-  commits: Commit[],
-  config: GenerationConfig
-): Promise<string> => {
-  const model = "gemini-2.5-flash";
-
-  // Construct the prompt
-  const commitContext = commits.map((c, i) => `
---- COMMIT ${i + 1} ---
-Hash: ${c.hash}
-Message: ${c.message}
-Author: ${c.author || 'Unknown'}
-Date: ${c.date || 'Unknown'}
-Diff/Changes:
-${c.diff.substring(0, 15000)} 
-(truncated if too long)
------------------------
-`).join('\n');
-
-  let taskDescription = `
-You are a world-class Technical Writer. Your task is to write comprehensive, developer-friendly documentation for a software feature based on the provided git commits.
-The documentation should be in Markdown format.
-  `;
-
-  if (config.previousDocContent) {
-    taskDescription += `
-\nIMPORTANT: You have been provided with an EXISTING DOCUMENTATION file. 
-Your goal is to UPDATE this existing documentation to reflect the changes introduced by the new commits.
-Maintain the style and structure of the original document where possible, but add new sections or modify existing ones as needed.
-    `;
-  } else {
-    taskDescription += `
-\nSince no previous documentation was provided, create a brand new documentation file.
-Structure it with the following sections:
-1. **Title**: A clear, concise title for the feature/change.
-2. **Overview**: High-level summary of what changed and why.
-3. **Key Changes**: Bullet points of technical details.
-4. **Usage**: Code examples or instructions on how to use the new feature.
-5. **Configuration/Setup**: (If applicable)
-    `;
+// The SDK throws an ApiError carrying the HTTP status, and a TypeError when
+// the request never got a response
+const toGeminiError = (error: any): Error => {
+  if (error instanceof SafetyBlockError || isAbortError(error)) return error;
+  if (error instanceof TypeError) {
+    return new NetworkError("Could not reach the Gemini API. Check your connection.");
   }
+  if (error.status === 429) {
+    return new RateLimitError("Gemini rate limit or quota reached. Try again later.");
+  }
+  // An invalid key is reported as 400 INVALID_ARGUMENT
+  if (error.status === 401 || error.status === 403 || /API key not valid/i.test(error.message || '')) {
+    return new AuthError("Gemini rejected the API key.", error.status);
+  }
+  return error;
+};
 
-  const prompt = `
-${taskDescription}
-
-User Provided Extra Context:
-"${config.extraInfo || 'N/A'}"
-
-User Provided Setup Instructions (incorporate this exactly if present):
-"${config.setupInstructions || 'N/A'}"
-
-Previous Documentation Content:
-${config.previousDocContent ? `\`\`\`markdown\n${config.previousDocContent}\n\`\`\`` : "None"}
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  defaultContextTokens: 1000000,
+  defaultBaseUrl: '',
+  apiKeyHint: 'Required. Requests are sent directly from the browser.',
 
-Commits to Process:
-${commitContext}
+  generate: async ({ systemInstruction, prompt, settings, onChunk, signal }) => {
+    if (!settings.apiKey) {
+      throw new Error("A Gemini API key is required");
+    }
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
 
-Output the final Markdown only. Do not wrap in JSON.
-`;
+    let text = '';
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: settings.model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          temperature: settings.temperature,
+          abortSignal: signal
+        }
+      });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        systemInstruction: "You are an expert software documentation generator. You are precise, clear, and thorough.",
-        temperature: 0.4, // Lower temperature for more factual documentation
+      for await (const chunk of stream) {
+        if (chunk.promptFeedback?.blockReason) {
+          throw new SafetyBlockError(`Gemini blocked the prompt (${chunk.promptFeedback.blockReason}).`);
+        }
+        if (chunk.text) {
+          text += chunk.text;
+          onChunk(chunk.text);
+        }
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+          throw new SafetyBlockError(`Gemini stopped the answer (${finishReason}).`);
+        }
       }
-    });
-
-    return response.text || "# Error: No content generated.";
-  } catch (error: any) {
-    console.error("Gemini Generation Error:", error);
-    return `# Generation Failed\n\nAn error occurred while communicating with the AI: ${error.message}`;
+    } catch (error: any) {
+      throw toGeminiError(error);
+    }
+    return text;
   }
-};
\ No newline at end of file
+};
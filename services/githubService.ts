@@ -1,4 +1,16 @@
 import { Commit, CommitSource } from '../types';
+import { formatFileDiff } from '../utils/diff';
+import { fetchJson, fetchJsonIfExists, sendJson } from './http';
+import { withCommitCache } from './commitCache';
+import {
+  CommitProvider,
+  ProviderCredentials,
+  COMMIT_MODE,
+  RANGE_MODE,
+  parseRange,
+  parsePullRequestNumber,
+  encodePathSegments
+} from './commitProviders';
 
 interface GitHubCommitResponse {
   sha: string;
@@ -16,61 +28,345 @@ interface GitHubCommitResponse {
   }[];
 }
 
-export const fetchGitHubCommit = async (
-  repoUrl: string,
-  commitHash: string,
-  token?: string
-): Promise<Commit> => {
-  // Parse owner and repo from URL
-  // Expected format: https://github.com/owner/repo
-  const match = repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-  
-  if (!match) {
-    throw new Error("Invalid GitHub repository URL");
+interface GitHubCommitListItem {
+  sha: string;
+}
+
+interface GitHubCompareResponse {
+  total_commits: number;
+  commits: GitHubCommitListItem[];
+}
+
+interface GitHubPullResponse {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  merged_at: string | null;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+interface GitHubRepo {
+  owner: string;
+  repo: string;
+  // https://api.github.com, or https://{host}/api/v3 for GitHub Enterprise Server
+  apiBase: string;
+}
+
+const API_BASE = 'https://api.github.com';
+const PAGE_SIZE = 100;
+
+const githubGet = async <T>({ apiBase }: GitHubRepo, path: string, credentials: ProviderCredentials): Promise<T> => {
+  const { data } = await fetchJson<T>(`${apiBase}${path}`, githubProvider.authHeaders(credentials), 'GitHub');
+  return data;
+};
+
+const githubSend = async <T>(
+  { apiBase }: GitHubRepo,
+  method: 'POST' | 'PUT',
+  path: string,
+  body: unknown,
+  credentials: ProviderCredentials
+): Promise<T> => {
+  const { data } = await sendJson<T>(`${apiBase}${path}`, method, githubProvider.authHeaders(credentials), body, 'GitHub');
+  return data;
+};
+
+// The contents API expects base64 of the UTF-8 bytes
+const toBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
   }
+  return btoa(binary);
+};
 
-  const owner = match[1];
-  const repo = match[2];
+// Walks every page of the compare endpoint. GitHub returns the commits in
+// chronological order, oldest first.
+const listCompareCommits = async (
+  repoRef: GitHubRepo,
+  base: string,
+  head: string,
+  credentials: ProviderCredentials
+): Promise<string[]> => {
+  const { owner, repo } = repoRef;
+  const shas: string[] = [];
+  const basehead = `${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
 
-  const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json',
-  };
+  for (let page = 1; ; page++) {
+    const data = await githubGet<GitHubCompareResponse>(
+      repoRef,
+      `/repos/${owner}/${repo}/compare/${basehead}?per_page=${PAGE_SIZE}&page=${page}`,
+      credentials
+    );
+    shas.push(...data.commits.map(c => c.sha));
 
-  if (token) {
-    headers['Authorization'] = `token ${token}`;
+    if (data.commits.length < PAGE_SIZE || shas.length >= data.total_commits) break;
   }
 
-  try {
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repo}/commits/${commitHash}`,
-      { headers }
+  return shas;
+};
+
+const listPullRequestCommits = async (
+  repoRef: GitHubRepo,
+  pullNumber: number,
+  credentials: ProviderCredentials
+): Promise<string[]> => {
+  const { owner, repo } = repoRef;
+  const shas: string[] = [];
+
+  for (let page = 1; ; page++) {
+    const data = await githubGet<GitHubCommitListItem[]>(
+      repoRef,
+      `/repos/${owner}/${repo}/pulls/${pullNumber}/commits?per_page=${PAGE_SIZE}&page=${page}`,
+      credentials
     );
+    shas.push(...data.map(c => c.sha));
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return shas;
+};
+
+export const githubProvider: CommitProvider<GitHubRepo> = {
+  id: 'github',
+  source: CommitSource.GITHUB,
+  label: 'GitHub',
+  hint: 'Fetching from GitHub API. Public repos work without token. Private repos need a Classic Token.',
+  repoUrl: { label: 'GitHub Repository URL', placeholder: 'https://github.com/owner/repo' },
+  token: { label: 'GitHub Token (Optional)', placeholder: 'ghp_...' },
+  baseUrl: { label: 'API Base URL (Optional)', placeholder: `${API_BASE}, or https://github.example.com/api/v3` },
+  fetchModes: [
+    COMMIT_MODE,
+    RANGE_MODE,
+    { id: 'branch', label: 'Branch (vs. default branch)', refLabel: 'Branch Name', refPlaceholder: 'e.g. feature/login' },
+    { id: 'pr', label: 'Pull request', refLabel: 'Pull Request', refPlaceholder: 'e.g. #42' }
+  ],
+  invalidUrlMessage: "Invalid GitHub repository URL",
+
+  // Parse owner and repo from URL
+  // Expected format: https://github.com/owner/repo, or any host when an API
+  // base URL is set for GitHub Enterprise Server
+  parseRepoUrl: (url, { baseUrl }) => {
+    const apiBase = (baseUrl.trim() || API_BASE).replace(/\/+$/, '');
+    const match = baseUrl.trim()
+      ? url.match(/^https?:\/\/[^/]+\/([^/]+)\/([^/?#]+)/)
+      : url.match(/github\.com\/([^/]+)\/([^/?#]+)/);
+    if (!match) return null;
+    return { owner: match[1], repo: match[2].replace(/\.git$/, ''), apiBase };
+  },
+
+  authHeaders: ({ token }) => {
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github.v3+json',
+    };
 
-    if (!response.ok) {
-      const err = await response.json();
-      throw new Error(err.message || "Failed to fetch commit from GitHub");
+    if (token) {
+      headers['Authorization'] = `token ${token}`;
     }
 
-    const data: GitHubCommitResponse = await response.json();
-    
-    // Construct a unified diff string
-    let fullDiff = "";
-    if (data.files) {
-      fullDiff = data.files.map(f => `File: ${f.filename} (${f.status})\n${f.patch || '[Binary or Large File]'}`).join('\n\n');
+    return headers;
+  },
+
+  listPullRequests: async (repoRef, status, credentials) => {
+    try {
+      const { owner, repo } = repoRef;
+      const state = status === 'active' ? 'open' : 'closed';
+      const pulls = await githubGet<GitHubPullResponse[]>(
+        repoRef,
+        `/repos/${owner}/${repo}/pulls?state=${state}&per_page=${PAGE_SIZE}`,
+        credentials
+      );
+
+      return pulls
+        // Closed but unmerged pull requests are not "completed"
+        .filter(pr => status === 'active' || pr.merged_at)
+        .map(pr => ({
+          id: String(pr.number),
+          title: pr.title,
+          description: pr.body || '',
+          sourceBranch: pr.head.ref,
+          targetBranch: pr.base.ref,
+          webUrl: pr.html_url
+        }));
+    } catch (error: any) {
+      console.error("GitHub Pull Request List Error:", error);
+      throw error;
     }
+  },
 
-    return {
-      id: crypto.randomUUID(),
-      hash: data.sha.substring(0, 7),
-      message: data.commit.message,
-      diff: fullDiff,
-      author: data.commit.author.name,
-      date: data.commit.author.date,
-      source: CommitSource.GITHUB
-    };
+  fetchCommit: withCommitCache('github', async (repoRef, commitHash, credentials) => {
+    try {
+      const { owner, repo } = repoRef;
+      const data = await githubGet<GitHubCommitResponse>(
+        repoRef,
+        `/repos/${owner}/${repo}/commits/${encodeURIComponent(commitHash.trim())}`,
+        credentials
+      );
+
+      // Construct a unified diff string
+      let fullDiff = "";
+      if (data.files) {
+        fullDiff = data.files.map(f => formatFileDiff(f.filename, f.status, f.patch)).join('\n\n');
+      }
+
+      return {
+        id: crypto.randomUUID(),
+        hash: data.sha.substring(0, 7),
+        message: data.commit.message,
+        diff: fullDiff,
+        author: data.commit.author.name,
+        date: data.commit.author.date,
+        source: CommitSource.GITHUB
+      };
+
+    } catch (error: any) {
+      console.error("GitHub Fetch Error:", error);
+      throw error;
+    }
+  }),
+
+  // Resolves a range, branch or pull request to its list of commits and
+  // fetches each one with its diff. Commits are returned oldest first.
+  fetchRange: async (repoRef, mode, ref, credentials) => {
+    try {
+      let shas: string[] = [];
+      let pullRequest;
+
+      if (mode === 'range') {
+        const { base, head } = parseRange(ref);
+        shas = await listCompareCommits(repoRef, base, head, credentials);
+      } else if (mode === 'branch') {
+        const repoData = await githubGet<{ default_branch: string }>(repoRef, `/repos/${repoRef.owner}/${repoRef.repo}`, credentials);
+        const branch = ref.trim();
+        if (branch === repoData.default_branch) {
+          throw new Error(`'${branch}' is the default branch. Use a range to select commits from it.`);
+        }
+        shas = await listCompareCommits(repoRef, repoData.default_branch, branch, credentials);
+      } else if (mode === 'pr') {
+        const pullNumber = parsePullRequestNumber(ref);
+        const pull = await githubGet<GitHubPullResponse>(
+          repoRef,
+          `/repos/${repoRef.owner}/${repoRef.repo}/pulls/${pullNumber}`,
+          credentials
+        );
+        pullRequest = {
+          id: String(pull.number),
+          title: pull.title,
+          description: pull.body || '',
+          url: pull.html_url,
+          source: CommitSource.GITHUB
+        };
+        shas = await listPullRequestCommits(repoRef, pullNumber, credentials);
+      }
+
+      if (shas.length === 0) {
+        throw new Error("No commits found for the given reference");
+      }
+
+      const commits: Commit[] = [];
+      for (const sha of shas) {
+        commits.push(await githubProvider.fetchCommit(repoRef, sha, credentials));
+      }
+      return { commits, pullRequest };
+
+    } catch (error: any) {
+      console.error("GitHub Fetch Error:", error);
+      throw error;
+    }
+  },
+
+  // Branches from the base, commits the document through the contents API and
+  // opens a pull request
+  publish: async (repoRef, request, credentials) => {
+    try {
+      const repoPath = `/repos/${repoRef.owner}/${repoRef.repo}`;
+      const baseBranch = request.baseBranch.trim()
+        || (await githubGet<{ default_branch: string }>(repoRef, repoPath, credentials)).default_branch;
+
+      const baseRef = await githubGet<{ object: { sha: string } }>(
+        repoRef,
+        `${repoPath}/git/ref/heads/${encodePathSegments(baseBranch)}`,
+        credentials
+      );
+      await githubSend(repoRef, 'POST', `${repoPath}/git/refs`, {
+        ref: `refs/heads/${request.branch}`,
+        sha: baseRef.object.sha
+      }, credentials);
+
+      // Updating an existing file requires its current blob sha
+      const contentsPath = `${repoPath}/contents/${encodePathSegments(request.path)}`;
+      const existing = await fetchJsonIfExists<{ sha: string }>(
+        `${repoRef.apiBase}${contentsPath}?ref=${encodeURIComponent(request.branch)}`,
+        githubProvider.authHeaders(credentials),
+        'GitHub'
+      );
+      await githubSend(repoRef, 'PUT', contentsPath, {
+        message: request.commitMessage,
+        content: toBase64(request.content),
+        branch: request.branch,
+        sha: existing?.sha
+      }, credentials);
+
+      const pull = await githubSend<GitHubPullResponse>(repoRef, 'POST', `${repoPath}/pulls`, {
+        title: request.title,
+        head: request.branch,
+        base: baseBranch,
+        body: request.description
+      }, credentials);
+      return { id: String(pull.number), url: pull.html_url };
+
+    } catch (error: any) {
+      console.error("GitHub Publish Error:", error);
+      throw error;
+    }
+  },
+
+  // Classic tokens list their scopes in X-OAuth-Scopes; fine-grained tokens
+  // send no such header and grant per-repository permissions instead
+  validateToken: async (credentials) => {
+    if (!credentials.token) {
+      throw new Error("Enter a token to check");
+    }
+    const apiBase = (credentials.baseUrl.trim() || API_BASE).replace(/\/+$/, '');
 
-  } catch (error: any) {
-    console.error("GitHub Fetch Error:", error);
-    throw error;
+    try {
+      const { data, response } = await fetchJson<{ login: string }>(
+        `${apiBase}/user`,
+        githubProvider.authHeaders(credentials),
+        'GitHub'
+      );
+      const header = response.headers.get('X-OAuth-Scopes');
+      if (header === null) {
+        return {
+          user: data.login,
+          scopes: null,
+          missing: [],
+          note: 'Fine-grained token: make sure it has read access to Contents and, for publishing, write access to Contents and Pull requests.'
+        };
+      }
+
+      const scopes = header.split(',').map(s => s.trim()).filter(Boolean);
+      if (scopes.includes('repo')) {
+        return { user: data.login, scopes, missing: [] };
+      }
+      // public_repo is enough as long as every repository used is public
+      if (scopes.includes('public_repo')) {
+        return {
+          user: data.login,
+          scopes,
+          missing: [],
+          note: 'The public_repo scope only covers public repositories. Add the repo scope for private ones.'
+        };
+      }
+      return { user: data.login, scopes, missing: ['repo or public_repo'] };
+
+    } catch (error: any) {
+      console.error("GitHub Token Check Error:", error);
+      throw error;
+    }
   }
-};
\ No newline at end of file
+};
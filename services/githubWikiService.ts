@@ -0,0 +1,75 @@
+import { ProviderCredentials } from './commitProviders';
+import { helperRequest, helperUrlOf } from './localGitService';
+
+// GitHub wikis are git repositories ({repo}.wiki.git) without a REST API, so
+// pages are read and pushed by the local git helper (server/githubWiki.ts)
+// with the user's GitHub token. The backend is not involved.
+
+export interface GithubWikiPage {
+  // Empty when the page does not exist yet
+  content: string;
+  // Blob id of the page file; null until the page exists
+  version: string | null;
+  url: string;
+}
+
+// The page a generated document was loaded from or will be saved to
+export interface GithubWikiPageRef {
+  repoUrl: string;
+  page: string;
+  version: string | null;
+}
+
+// github holds the GitHub token, helper the Local Git tab's token and URL
+const helperInit = (github: ProviderCredentials, helper: ProviderCredentials): RequestInit => {
+  if (!github.token) {
+    throw new Error("Enter a GitHub token with write access to the repository. Wiki pages are pushed by the local git helper, not the backend.");
+  }
+  if (!helper.token) {
+    throw new Error("Start the local git helper with 'npm run git-helper' and paste the token it prints");
+  }
+  return {
+    headers: {
+      'Authorization': `Bearer ${helper.token}`,
+      'X-GitHub-Token': github.token
+    }
+  };
+};
+
+export const fetchGithubWikiPage = async (
+  repoUrl: string,
+  page: string,
+  github: ProviderCredentials,
+  helper: ProviderCredentials
+): Promise<GithubWikiPage> => {
+  try {
+    const query = new URLSearchParams({ repoUrl: repoUrl.trim(), page: page.trim() });
+    return await helperRequest<GithubWikiPage>(helperUrlOf(helper.baseUrl), `/wiki-page?${query}`, helperInit(github, helper));
+  } catch (error: any) {
+    console.error("GitHub Wiki Fetch Error:", error);
+    throw error;
+  }
+};
+
+// Creates the page when version is null. Otherwise the update only succeeds
+// if nobody changed the page since it was read at that version.
+export const saveGithubWikiPage = async (
+  repoUrl: string,
+  page: string,
+  content: string,
+  version: string | null,
+  github: ProviderCredentials,
+  helper: ProviderCredentials
+): Promise<GithubWikiPage> => {
+  try {
+    const init = helperInit(github, helper);
+    return await helperRequest<GithubWikiPage>(helperUrlOf(helper.baseUrl), '/wiki-page', {
+      method: 'PUT',
+      headers: { ...init.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ repoUrl: repoUrl.trim(), page: page.trim(), content, version })
+    });
+  } catch (error: any) {
+    console.error("GitHub Wiki Save Error:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,251 @@
+import { Commit, CommitSource } from '../types';
+import { formatFileDiff, FileChangeStatus } from '../utils/diff';
+import { fetchJson } from './http';
+import { withCommitCache } from './commitCache';
+import {
+  CommitProvider,
+  ProviderCredentials,
+  COMMIT_MODE,
+  RANGE_MODE,
+  parseRange,
+  parsePullRequestNumber
+} from './commitProviders';
+
+interface GitLabCommitResponse {
+  id: string;
+  message: string;
+  author_name: string;
+  authored_date: string;
+}
+
+interface GitLabDiffResponse {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface GitLabMergeRequestResponse {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  source_branch: string;
+  target_branch: string;
+}
+
+interface GitLabRepo {
+  apiBase: string;
+  projectPath: string;
+}
+
+const PAGE_SIZE = 100;
+
+const projectApi = ({ apiBase, projectPath }: GitLabRepo) =>
+  `${apiBase}/api/v4/projects/${encodeURIComponent(projectPath)}`;
+
+const gitlabGet = async <T>(repo: GitLabRepo, path: string, credentials: ProviderCredentials): Promise<T> => {
+  const { data } = await fetchJson<T>(`${projectApi(repo)}${path}`, gitlabProvider.authHeaders(credentials), 'GitLab');
+  return data;
+};
+
+// Collects every page of a paginated list endpoint
+const gitlabGetAll = async <T>(repo: GitLabRepo, path: string, credentials: ProviderCredentials): Promise<T[]> => {
+  const items: T[] = [];
+  const separator = path.includes('?') ? '&' : '?';
+  for (let page = 1; ; page++) {
+    const pageItems = await gitlabGet<T[]>(repo, `${path}${separator}per_page=${PAGE_SIZE}&page=${page}`, credentials);
+    items.push(...pageItems);
+    if (pageItems.length < PAGE_SIZE) break;
+  }
+  return items;
+};
+
+const toFileStatus = (diff: GitLabDiffResponse): FileChangeStatus => {
+  if (diff.new_file) return 'added';
+  if (diff.deleted_file) return 'removed';
+  if (diff.renamed_file) return 'renamed';
+  return 'modified';
+};
+
+const fetchCommitsInOrder = async (
+  repo: GitLabRepo,
+  shas: string[],
+  credentials: ProviderCredentials
+): Promise<Commit[]> => {
+  const commits: Commit[] = [];
+  for (const sha of shas) {
+    commits.push(await gitlabProvider.fetchCommit(repo, sha, credentials));
+  }
+  return commits;
+};
+
+export const gitlabProvider: CommitProvider<GitLabRepo> = {
+  id: 'gitlab',
+  source: CommitSource.GITLAB,
+  label: 'GitLab',
+  hint: "Works with gitlab.com and self-hosted instances. Private projects need a token with 'read_api' scope.",
+  repoUrl: { label: 'GitLab Project URL', placeholder: 'https://gitlab.example.com/group/project' },
+  token: { label: 'Access Token (Optional)', placeholder: 'glpat-...' },
+  baseUrl: { label: 'Instance Base URL (Optional)', placeholder: 'Only needed for a relative URL root, e.g. https://example.com/gitlab' },
+  fetchModes: [
+    COMMIT_MODE,
+    RANGE_MODE,
+    { id: 'pr', label: 'Merge request', refLabel: 'Merge Request', refPlaceholder: 'e.g. !42' }
+  ],
+  invalidUrlMessage: "Invalid GitLab project URL. Format should be https://gitlab.example.com/{group}/{project}",
+
+  // Helper to parse a GitLab project URL
+  // Formats:
+  // https://gitlab.com/{group}/{subgroup}/{project}
+  // https://gitlab.example.com/{group}/{project}/-/tree/main
+  // For instances served under a relative path (https://example.com/gitlab/...)
+  // the base URL must be given so the project path can be separated from it.
+  parseRepoUrl: (url, { baseUrl }) => {
+    try {
+      const urlObj = new URL(url.trim());
+      const apiBase = (baseUrl.trim() || urlObj.origin).replace(/\/+$/, '');
+
+      let projectPath = `${urlObj.origin}${urlObj.pathname}`;
+      if (!projectPath.startsWith(apiBase)) return null;
+      projectPath = projectPath.substring(apiBase.length);
+
+      projectPath = projectPath
+        .split('/-/')[0]
+        .replace(/\.git$/, '')
+        .replace(/^\/+|\/+$/g, '');
+
+      if (!projectPath.includes('/')) return null;
+
+      return { apiBase, projectPath };
+    } catch (e) {
+      return null;
+    }
+  },
+
+  authHeaders: ({ token }) => {
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers['PRIVATE-TOKEN'] = token;
+    }
+    return headers;
+  },
+
+  listPullRequests: async (repo, status, credentials) => {
+    try {
+      const state = status === 'active' ? 'opened' : 'merged';
+      const mergeRequests = await gitlabGet<GitLabMergeRequestResponse[]>(
+        repo,
+        `/merge_requests?state=${state}&per_page=${PAGE_SIZE}`,
+        credentials
+      );
+
+      return mergeRequests.map(mr => ({
+        id: String(mr.iid),
+        title: mr.title,
+        description: mr.description || '',
+        sourceBranch: mr.source_branch,
+        targetBranch: mr.target_branch,
+        webUrl: mr.web_url
+      }));
+    } catch (error: any) {
+      console.error("GitLab Merge Request List Error:", error);
+      throw error;
+    }
+  },
+
+  fetchCommit: withCommitCache('gitlab', async (repo, commitHash, credentials) => {
+    try {
+      const sha = encodeURIComponent(commitHash.trim());
+      const data = await gitlabGet<GitLabCommitResponse>(repo, `/repository/commits/${sha}`, credentials);
+
+      // The diff endpoint is paginated for commits touching many files
+      const diffs = await gitlabGetAll<GitLabDiffResponse>(repo, `/repository/commits/${sha}/diff`, credentials);
+
+      return {
+        id: crypto.randomUUID(),
+        hash: data.id.substring(0, 7),
+        message: data.message,
+        diff: diffs.map(d => formatFileDiff(d.new_path, toFileStatus(d), d.diff)).join('\n\n'),
+        author: data.author_name,
+        date: data.authored_date,
+        source: CommitSource.GITLAB
+      };
+
+    } catch (error: any) {
+      console.error("GitLab Fetch Error:", error);
+      throw error;
+    }
+  }),
+
+  fetchRange: async (repo, mode, ref, credentials) => {
+    try {
+      if (mode === 'pr') {
+        const iid = parsePullRequestNumber(ref);
+        const mr = await gitlabGet<GitLabMergeRequestResponse>(repo, `/merge_requests/${iid}`, credentials);
+        const mrCommits = await gitlabGetAll<{ id: string }>(repo, `/merge_requests/${iid}/commits`, credentials);
+
+        return {
+          // Merge request commits are listed newest first
+          commits: await fetchCommitsInOrder(repo, mrCommits.map(c => c.id).reverse(), credentials),
+          pullRequest: {
+            id: String(mr.iid),
+            title: mr.title,
+            description: mr.description || '',
+            url: mr.web_url,
+            source: CommitSource.GITLAB
+          }
+        };
+      }
+
+      const { base, head } = parseRange(ref);
+      const compare = await gitlabGet<{ commits: { id: string }[] }>(
+        repo,
+        `/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}`,
+        credentials
+      );
+      if (compare.commits.length === 0) {
+        throw new Error("No commits found for the given reference");
+      }
+
+      return { commits: await fetchCommitsInOrder(repo, compare.commits.map(c => c.id), credentials) };
+
+    } catch (error: any) {
+      console.error("GitLab Fetch Error:", error);
+      throw error;
+    }
+  },
+
+  validateToken: async (credentials, scopeUrl) => {
+    if (!credentials.token) {
+      throw new Error("Enter a token to check");
+    }
+    let apiBase = credentials.baseUrl.trim();
+    if (!apiBase) {
+      try {
+        apiBase = new URL(scopeUrl.trim()).origin;
+      } catch {
+        apiBase = 'https://gitlab.com';
+      }
+    }
+    apiBase = apiBase.replace(/\/+$/, '');
+    const headers = gitlabProvider.authHeaders(credentials);
+
+    try {
+      const { data: user } = await fetchJson<{ username: string }>(`${apiBase}/api/v4/user`, headers, 'GitLab');
+      const { data: token } = await fetchJson<{ scopes: string[] }>(
+        `${apiBase}/api/v4/personal_access_tokens/self`,
+        headers,
+        'GitLab'
+      );
+      const canRead = token.scopes.includes('api') || token.scopes.includes('read_api');
+      return { user: user.username, scopes: token.scopes, missing: canRead ? [] : ['read_api'] };
+
+    } catch (error: any) {
+      console.error("GitLab Token Check Error:", error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,43 @@
+import { GenerationRun } from '../types';
+import { RUN_STORE, withStore } from './database';
+
+// Newest first
+export const listRuns = async (workspaceId: string): Promise<GenerationRun[]> => {
+  try {
+    const runs = await withStore<GenerationRun[]>(RUN_STORE, 'readonly', store =>
+      store.index('workspaceId').getAll(workspaceId)
+    );
+    return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error("History Load Error:", error);
+    throw error;
+  }
+};
+
+export const saveRun = async (run: GenerationRun): Promise<void> => {
+  try {
+    await withStore(RUN_STORE, 'readwrite', store => store.put(run));
+  } catch (error) {
+    console.error("History Save Error:", error);
+    throw error;
+  }
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  try {
+    await withStore(RUN_STORE, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("History Delete Error:", error);
+    throw error;
+  }
+};
+
+export const deleteRunsForWorkspace = async (workspaceId: string): Promise<void> => {
+  try {
+    const runs = await listRuns(workspaceId);
+    await Promise.all(runs.map(run => deleteRun(run.id)));
+  } catch (error) {
+    console.error("History Delete Error:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,220 @@
+import { fetchViaBackend, isBackendEnabled } from './backendService';
+import { NetworkError, errorFromResponse, fetchOrNetworkError, isRateLimited, readRetryAt } from './errors';
+
+// Shared request helpers for the commit host APIs: retries with backoff,
+// rate-limit tracking per host and bounded concurrency
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+// A rate limit resetting later than this fails the request instead of waiting
+const MAX_RATE_LIMIT_WAIT_MS = 60000;
+// Gateway errors worth retrying; only for GETs, since a write may have landed
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+// Parallel requests per batch, e.g. the files of one commit
+export const HOST_CONCURRENCY = 4;
+
+// What a host last reported about its rate limit, for display
+export interface RateLimitState {
+  host: string;
+  remaining: number | null;
+  limit: number | null;
+  resetAt: Date | null;
+  // Set while requests are held back until the limit resets
+  waitingUntil: Date | null;
+}
+
+const rateLimits = new Map<string, RateLimitState>();
+const rateLimitListeners = new Set<(states: RateLimitState[]) => void>();
+
+const notifyRateLimits = () => {
+  const states = [...rateLimits.values()];
+  rateLimitListeners.forEach(listener => listener(states));
+};
+
+// Calls the listener with every host's state now and on each change; returns
+// the function that unsubscribes it
+export const subscribeRateLimits = (listener: (states: RateLimitState[]) => void) => {
+  rateLimitListeners.add(listener);
+  listener([...rateLimits.values()]);
+  return () => {
+    rateLimitListeners.delete(listener);
+  };
+};
+
+const updateRateLimit = (host: string, changes: Partial<RateLimitState>) => {
+  const current = rateLimits.get(host) || { host, remaining: null, limit: null, resetAt: null, waitingUntil: null };
+  rateLimits.set(host, { ...current, ...changes });
+  notifyRateLimits();
+};
+
+const readNumber = (headers: Headers, name: string) => {
+  const value = headers.get(`x-${name}`) ?? headers.get(name);
+  return value === null || isNaN(Number(value)) ? null : Number(value);
+};
+
+// GitHub, GitLab and Azure DevOps all report (X-)RateLimit-Limit/Remaining/Reset
+const recordRateLimit = (host: string, headers: Headers) => {
+  const remaining = readNumber(headers, 'ratelimit-remaining');
+  if (remaining === null) return;
+  const reset = readNumber(headers, 'ratelimit-reset');
+  updateRateLimit(host, {
+    remaining,
+    limit: readNumber(headers, 'ratelimit-limit'),
+    resetAt: reset ? new Date(reset * 1000) : null
+  });
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('The request was aborted', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The request was aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Holds requests back while the host's limit is shown as reset
+const waitUntil = async (host: string, until: Date, signal?: AbortSignal | null) => {
+  updateRateLimit(host, { waitingUntil: until });
+  try {
+    await sleep(until.getTime() - Date.now(), signal);
+  } finally {
+    updateRateLimit(host, { waitingUntil: null });
+  }
+};
+
+// Exponential with jitter: about 1s, 2s, 4s
+const backoffDelay = (attempt: number) => BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() / 2);
+
+// How long to wait before repeating the request, or null to return the response as is
+const retryDelay = (response: Response, method: string, attempt: number): number | null => {
+  if (isRateLimited(response)) {
+    const retryAt = readRetryAt(response.headers);
+    const delay = retryAt ? retryAt.getTime() - Date.now() : backoffDelay(attempt);
+    return delay <= MAX_RATE_LIMIT_WAIT_MS ? Math.max(delay, 0) : null;
+  }
+  if (method === 'GET' && RETRYABLE_STATUSES.includes(response.status)) {
+    const retryAt = readRetryAt(response.headers);
+    return retryAt ? Math.max(retryAt.getTime() - Date.now(), 0) : backoffDelay(attempt);
+  }
+  return null;
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Throws the typed error for a failed response, see errors.ts
+export const checkResponse = async (response: Response, hostName: string): Promise<void> => {
+  if (response.ok) return;
+  throw await errorFromResponse(response, hostName);
+};
+
+// Every host request goes through here, so a configured backend can add the
+// credentials instead of the browser. Throttled and gateway-failed requests are
+// repeated; the last response is returned for checkResponse to turn into an error.
+export const hostFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const host = hostOf(url);
+  const method = (init.method || 'GET').toUpperCase();
+
+  for (let attempt = 1; ; attempt++) {
+    const state = rateLimits.get(host);
+    if (state?.remaining === 0 && state.resetAt && state.resetAt.getTime() > Date.now()
+      && state.resetAt.getTime() - Date.now() <= MAX_RATE_LIMIT_WAIT_MS) {
+      await waitUntil(host, state.resetAt, init.signal);
+    }
+
+    let response: Response;
+    try {
+      response = await (isBackendEnabled() ? fetchViaBackend(url, init) : fetchOrNetworkError(url, init));
+    } catch (error) {
+      if (!(error instanceof NetworkError) || method !== 'GET' || attempt >= MAX_ATTEMPTS) throw error;
+      await sleep(backoffDelay(attempt), init.signal);
+      continue;
+    }
+
+    recordRateLimit(host, response.headers);
+    const delay = attempt < MAX_ATTEMPTS ? retryDelay(response, method, attempt) : null;
+    if (delay === null) return response;
+    await waitUntil(host, new Date(Date.now() + delay), init.signal);
+  }
+};
+
+// Runs fn for every item with at most `limit` calls in flight; results keep
+// the order of the items
+export const mapConcurrent = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+export const fetchJson = async <T>(
+  url: string,
+  headers: Record<string, string>,
+  hostName: string
+): Promise<{ data: T; response: Response }> => {
+  const response = await hostFetch(url, { headers });
+  await checkResponse(response, hostName);
+  return { data: await response.json(), response };
+};
+
+export const fetchText = async (
+  url: string,
+  headers: Record<string, string>,
+  hostName: string
+): Promise<string> => {
+  const response = await hostFetch(url, { headers });
+  await checkResponse(response, hostName);
+  return response.text();
+};
+
+// For lookups where a missing resource is an expected answer
+export const fetchJsonIfExists = async <T>(
+  url: string,
+  headers: Record<string, string>,
+  hostName: string
+): Promise<T | null> => {
+  const response = await hostFetch(url, { headers });
+  if (response.status === 404) return null;
+  await checkResponse(response, hostName);
+  return response.json();
+};
+
+export const sendJson = async <T>(
+  url: string,
+  method: 'POST' | 'PUT' | 'PATCH',
+  headers: Record<string, string>,
+  body: unknown,
+  hostName: string
+): Promise<{ data: T; response: Response }> => {
+  const response = await hostFetch(url, {
+    method,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  await checkResponse(response, hostName);
+  return { data: await response.json().catch(() => ({})), response };
+};
@@ -0,0 +1,59 @@
+import { LlmProviderId, ModelSettings } from '../types';
+
+// Contract for the model backends that write the documentation.
+// Prompt construction lives in documentationService; a backend only has to
+// stream text for a system instruction and a prompt, reporting each piece
+// through onChunk, and stop when the signal is aborted.
+
+export interface LlmRequest {
+  systemInstruction: string;
+  prompt: string;
+  settings: ModelSettings;
+  onChunk: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  // Context window of the default model, in tokens
+  defaultContextTokens: number;
+  // Empty for SDK-based backends that don't take a base URL
+  defaultBaseUrl: string;
+  // Shown under the API key field
+  apiKeyHint: string;
+  // Resolves with the complete text once the stream ends
+  generate: (request: LlmRequest) => Promise<string>;
+}
+
+// Joins a base URL and an endpoint path without doubling slashes
+export const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+// Calls onData with the payload of every "data:" line of a server-sent event stream
+export const readServerSentEvents = async (
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> => {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        onData(line.substring(5).trim());
+      }
+    }
+  }
+};
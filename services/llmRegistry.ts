@@ -0,0 +1,35 @@
+import { LlmProviderId, ModelSettings } from '../types';
+import { LlmProvider, LlmRequest } from './llmProviders';
+import { geminiProvider } from './geminiService';
+import { openaiCompatibleProvider } from './openaiService';
+import { anthropicProvider } from './anthropicService';
+import { generateViaBackend, isBackendEnabled } from './backendService';
+
+export const llmProviders: LlmProvider[] = [
+  geminiProvider,
+  openaiCompatibleProvider,
+  anthropicProvider
+];
+
+export const getLlmProvider = (id: LlmProviderId): LlmProvider =>
+  llmProviders.find(p => p.id === id) || geminiProvider;
+
+// Model calls go through the backend when one is configured, so the browser
+// never needs a model API key
+export const generateText = (request: LlmRequest): Promise<string> =>
+  isBackendEnabled() ? generateViaBackend(request) : getLlmProvider(request.settings.provider).generate(request);
+
+// Lower temperature for more factual documentation
+export const DEFAULT_TEMPERATURE = 0.4;
+
+export const defaultModelSettings = (id: LlmProviderId = 'gemini'): ModelSettings => {
+  const provider = getLlmProvider(id);
+  return {
+    provider: provider.id,
+    model: provider.defaultModel,
+    baseUrl: provider.defaultBaseUrl,
+    apiKey: '',
+    temperature: DEFAULT_TEMPERATURE,
+    contextTokens: provider.defaultContextTokens
+  };
+};
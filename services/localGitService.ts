@@ -0,0 +1,96 @@
+import { Commit, CommitSource } from '../types';
+import { checkResponse } from './http';
+import { NetworkError, fetchOrNetworkError } from './errors';
+import { CommitProvider, COMMIT_MODE, RANGE_MODE } from './commitProviders';
+
+// Local repositories are read by the git helper process (server/gitHelper.ts),
+// since a browser cannot run git. The helper returns finished Commit objects.
+
+interface LocalRepo {
+  path: string;
+  helperUrl: string;
+}
+
+const DEFAULT_HELPER_URL = 'http://127.0.0.1:4319';
+const HOST_NAME = 'Local git helper';
+
+// The helper URL is kept in the Local Git credentials' baseUrl
+export const helperUrlOf = (baseUrl: string) => (baseUrl.trim() || DEFAULT_HELPER_URL).replace(/\/+$/, '');
+
+// The helper runs on this machine, so its requests never go through a backend
+export const helperRequest = async <T>(helperUrl: string, endpoint: string, init: RequestInit): Promise<T> => {
+  try {
+    const response = await fetchOrNetworkError(`${helperUrl}${endpoint}`, init);
+    await checkResponse(response, HOST_NAME);
+    return await response.json();
+  } catch (error: any) {
+    // Nothing is listening, most likely because the helper was not started
+    if (error instanceof NetworkError) {
+      throw new NetworkError(`Cannot reach the local git helper at ${helperUrl}. Start it with 'npm run git-helper'.`);
+    }
+    throw error;
+  }
+};
+
+const helperGet = <T>(
+  { path, helperUrl }: LocalRepo,
+  endpoint: string,
+  params: Record<string, string>,
+  headers: Record<string, string>
+): Promise<T> =>
+  helperRequest<T>(helperUrl, `${endpoint}?${new URLSearchParams({ repo: path, ...params })}`, { headers });
+
+export const localGitProvider: CommitProvider<LocalRepo> = {
+  id: 'local',
+  source: CommitSource.LOCAL,
+  label: 'Local Git',
+  direct: true,
+  hint: "Reads a repository on this machine, including unpushed commits and uncommitted changes. Run 'npm run git-helper' and paste the token it prints.",
+  repoUrl: { label: 'Repository Path', placeholder: '/home/me/projects/app' },
+  token: {
+    label: 'Helper Token',
+    placeholder: 'Printed by npm run git-helper',
+    requiredMessage: "Start the local git helper with 'npm run git-helper' and paste the token it prints"
+  },
+  baseUrl: { label: 'Helper URL (Optional)', placeholder: DEFAULT_HELPER_URL },
+  fetchModes: [
+    COMMIT_MODE,
+    RANGE_MODE,
+    { id: 'branch', label: 'Branch (vs. default branch)', refLabel: 'Branch Name', refPlaceholder: 'e.g. feature/login' },
+    {
+      id: 'working',
+      label: 'Uncommitted changes',
+      refLabel: 'Paths (Optional)',
+      refPlaceholder: 'e.g. src/ docs/ (all files when empty)',
+      refOptional: true
+    }
+  ],
+  invalidUrlMessage: "Enter the absolute path of a local git repository, e.g. /home/me/projects/app or C:\\src\\app",
+
+  // Absolute POSIX or Windows paths; the helper resolves nothing relative
+  parseRepoUrl: (url, { baseUrl }) => {
+    const path = url.trim();
+    if (!/^(\/|[A-Za-z]:[\\/])/.test(path)) return null;
+    return { path, helperUrl: helperUrlOf(baseUrl) };
+  },
+
+  authHeaders: ({ token }) => ({ 'Authorization': `Bearer ${token}` }),
+
+  fetchCommit: async (repo, commitHash, credentials) => {
+    try {
+      return await helperGet<Commit>(repo, '/commit', { ref: commitHash.trim() }, localGitProvider.authHeaders(credentials));
+    } catch (error: any) {
+      console.error("Local Git Fetch Error:", error);
+      throw error;
+    }
+  },
+
+  fetchRange: async (repo, mode, ref, credentials) => {
+    try {
+      return await helperGet<{ commits: Commit[] }>(repo, '/range', { mode, ref }, localGitProvider.authHeaders(credentials));
+    } catch (error: any) {
+      console.error("Local Git Fetch Error:", error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,54 @@
+import { LlmProvider, joinUrl, readServerSentEvents } from './llmProviders';
+import { SafetyBlockError, errorFromResponse, fetchOrNetworkError } from './errors';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself,
+// or self-hosted Ollama (http://localhost:11434/v1), vLLM, LM Studio, ...
+export const openaiCompatibleProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultContextTokens: 128000,
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  apiKeyHint: 'Optional for local servers such as Ollama or vLLM.',
+
+  generate: async ({ systemInstruction, prompt, settings, onChunk, signal }) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetchOrNetworkError(joinUrl(settings.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        stream: true,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'OpenAI-compatible endpoint');
+    }
+
+    let text = '';
+    await readServerSentEvents(response, (data) => {
+      if (data === '[DONE]') return;
+      const choice = JSON.parse(data).choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onChunk(delta);
+      }
+      if (choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockError("The model's content filter stopped the answer.");
+      }
+    });
+    return text;
+  }
+};
@@ -0,0 +1,139 @@
+import { Commit, CommitSource } from '../types';
+import { formatGitDiff } from '../utils/diff';
+
+// Parses `git format-patch` output and mbox files (several patches
+// concatenated) into commits. Each message looks like:
+//
+// From 2f7c1e0d4b... Mon Sep 17 00:00:00 2001
+// From: Jane Doe <jane@example.com>
+// Date: Tue, 1 Oct 2024 12:00:00 +0200
+// Subject: [PATCH 1/3] Add login form
+//
+// Longer description...
+// ---
+//  src/login.ts | 12 ++++++++++++
+//
+// diff --git a/src/login.ts b/src/login.ts
+// ...
+// --
+// 2.44.0
+
+const MESSAGE_SEPARATOR = /^From (\S+) +\w{3} \w{3} +\d+ [\d:]+ \d{4}$/;
+
+// RFC 2047 encoded words, e.g. =?UTF-8?q?J=C3=B6rg?= or =?UTF-8?B?SsO2cmc=?=
+const decodeHeader = (value: string): string =>
+  value.replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=\s*/g, (match, charset: string, encoding: string, text: string) => {
+    try {
+      let bytes: Uint8Array;
+      if (encoding.toUpperCase() === 'B') {
+        bytes = Uint8Array.from(atob(text), c => c.charCodeAt(0));
+      } else {
+        const decoded = text
+          .replace(/_/g, ' ')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+        bytes = Uint8Array.from(decoded, c => c.charCodeAt(0));
+      }
+      return new TextDecoder(charset).decode(bytes);
+    } catch (e) {
+      return match;
+    }
+  });
+
+// Header block up to the first blank line; folded lines are joined
+const parseHeaders = (lines: string[]) => {
+  const headers: Record<string, string> = {};
+  let lastKey = '';
+  let i = 0;
+
+  for (; i < lines.length && lines[i] !== ''; i++) {
+    const line = lines[i];
+    if (/^\s/.test(line) && lastKey) {
+      headers[lastKey] += ' ' + line.trim();
+      continue;
+    }
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (match) {
+      lastKey = match[1].toLowerCase();
+      headers[lastKey] = match[2];
+    }
+  }
+
+  return { headers, bodyStart: i + 1 };
+};
+
+const toIsoDate = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseMessage = (lines: string[], hash: string): Commit | null => {
+  const { headers, bodyStart } = parseHeaders(lines);
+  const rest = lines.slice(bodyStart);
+
+  const diffStart = rest.findIndex(l => l.startsWith('diff --git '));
+  if (diffStart === -1) return null;
+
+  // The commit body ends at the "---" line that introduces the diffstat
+  let bodyEnd = rest.findIndex(l => l === '---');
+  if (bodyEnd === -1 || bodyEnd > diffStart) bodyEnd = diffStart;
+
+  // Everything after the "-- " signature line is the git version
+  let diffEnd = rest.findIndex((l, i) => i > diffStart && l === '-- ');
+  if (diffEnd === -1) diffEnd = rest.length;
+
+  const subject = decodeHeader(headers['subject'] || '').replace(/^\[PATCH[^\]]*\]\s*/, '');
+  const body = rest.slice(0, bodyEnd).join('\n').trim();
+  const author = decodeHeader(headers['from'] || '').replace(/\s*<[^>]*>$/, '').replace(/^"|"$/g, '');
+
+  return {
+    id: crypto.randomUUID(),
+    hash: /^[0-9a-f]{7,40}$/i.test(hash) ? hash.substring(0, 7) : 'patch',
+    message: body ? `${subject}\n\n${body}` : subject || 'Imported Patch',
+    diff: formatGitDiff(rest.slice(diffStart, diffEnd).join('\n')),
+    author: author || undefined,
+    date: toIsoDate(headers['date']),
+    source: CommitSource.MANUAL
+  };
+};
+
+export const parsePatchFile = (text: string, fileName: string): Commit[] => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  // Locate each "From <sha> <date>" separator line
+  const starts: { index: number; hash: string }[] = [];
+  lines.forEach((line, index) => {
+    const match = line.match(MESSAGE_SEPARATOR);
+    if (match && (index === 0 || lines[index - 1] === '')) {
+      starts.push({ index, hash: match[1] });
+    }
+  });
+
+  if (starts.length === 0) {
+    // A plain `git diff` without mail headers becomes a single entry
+    if (!text.includes('diff --git ')) {
+      throw new Error(`${fileName} does not contain any git patches`);
+    }
+    return [{
+      id: crypto.randomUUID(),
+      hash: 'patch',
+      message: fileName,
+      diff: formatGitDiff(text),
+      source: CommitSource.MANUAL
+    }];
+  }
+
+  const commits: Commit[] = [];
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : lines.length;
+    // mbox escapes body lines starting with "From " as ">From "
+    const messageLines = lines.slice(start.index + 1, end).map(l => l.replace(/^>(>*From )/, '$1'));
+    const commit = parseMessage(messageLines, start.hash);
+    if (commit) commits.push(commit);
+  });
+
+  if (commits.length === 0) {
+    throw new Error(`${fileName} does not contain any git patches`);
+  }
+  return commits;
+};
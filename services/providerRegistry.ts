@@ -0,0 +1,18 @@
+import { CommitProvider } from './commitProviders';
+import { githubProvider } from './githubService';
+import { azureProvider } from './azureService';
+import { gitlabProvider } from './gitlabService';
+import { bitbucketProvider } from './bitbucketService';
+import { localGitProvider } from './localGitService';
+
+// Commit hosts in the order their tabs appear in CommitManager
+export const commitProviders: CommitProvider[] = [
+  githubProvider,
+  azureProvider,
+  gitlabProvider,
+  bitbucketProvider,
+  localGitProvider
+];
+
+export const getCommitProvider = (id: string): CommitProvider | undefined =>
+  commitProviders.find(p => p.id === id);
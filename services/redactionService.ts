@@ -0,0 +1,177 @@
+import { Commit, RedactionRule, RedactionSettings } from '../types';
+
+// Masks secrets and personal data in commits before they are put into a
+// prompt. Findings are reviewed per commit: each one is either masked (the
+// default) or explicitly allowed through as a false positive.
+
+const STORAGE_KEY = 'commit2doc.redaction';
+
+export const HIGH_ENTROPY_RULE_ID = 'high-entropy';
+
+// Random-looking strings above this many bits per character are treated as
+// secrets; hex (at most 4 bits) such as commit hashes stays below it
+const ENTROPY_THRESHOLD = 4.2;
+
+// When a pattern has a capture group only the group is masked, so
+// "Password=hunter2" keeps its key and loses its value
+export const BUILT_IN_RULES: RedactionRule[] = [
+  { id: 'private-key', name: 'Private key', pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----', builtIn: true },
+  { id: 'aws-access-key', name: 'AWS access key', pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b', builtIn: true },
+  { id: 'google-api-key', name: 'Google API key', pattern: '\\bAIza[0-9A-Za-z_-]{35}\\b', builtIn: true },
+  { id: 'github-token', name: 'GitHub token', pattern: '\\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\\b', builtIn: true },
+  { id: 'slack-token', name: 'Slack token', pattern: '\\bxox[abposr]-[A-Za-z0-9-]{10,}\\b', builtIn: true },
+  { id: 'stripe-key', name: 'Stripe key', pattern: '\\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\\b', builtIn: true },
+  { id: 'jwt', name: 'JSON Web Token', pattern: '\\beyJ[A-Za-z0-9_-]{5,}\\.eyJ[A-Za-z0-9_-]{5,}\\.[A-Za-z0-9_-]{10,}', builtIn: true },
+  { id: 'connection-string', name: 'Connection string secret', pattern: '\\b(?:Password|Pwd|AccountKey|SharedAccessKey)\\s*=\\s*([^;\'"\\s]+)', builtIn: true },
+  { id: 'url-credentials', name: 'Password in URL', pattern: '\\b[a-z][a-z0-9+.-]*://[^\\s:/@]+:([^\\s@/]+)@', builtIn: true },
+  { id: 'email', name: 'Email address', pattern: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b', builtIn: true },
+  { id: HIGH_ENTROPY_RULE_ID, name: 'High-entropy string', pattern: '[A-Za-z0-9+/_=-]{24,}', builtIn: true }
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  customRules: [],
+  disabledRuleIds: [],
+  blockUnreviewed: false
+};
+
+export type RedactionDecision = 'mask' | 'allow';
+
+export interface RedactionFinding {
+  // Commit, field, rule and value: the same secret repeated within a commit
+  // shares one decision, and decisions survive a rescan
+  key: string;
+  commitId: string;
+  field: 'message' | 'diff';
+  ruleId: string;
+  ruleName: string;
+  value: string;
+  start: number;
+  end: number;
+  // The line the value was found on, for the review list
+  line: string;
+}
+
+export const loadRedactionSettings = (): RedactionSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_REDACTION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_REDACTION_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load redaction settings:", e);
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Null when the pattern is usable, otherwise why not
+export const validatePattern = (pattern: string): string | null => {
+  if (!pattern.trim()) return 'Enter a regular expression';
+  try {
+    if (new RegExp(pattern).test('')) return 'The pattern must not match an empty string';
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+export const getActiveRules = (settings: RedactionSettings): RedactionRule[] =>
+  [...BUILT_IN_RULES, ...settings.customRules].filter(rule => !settings.disabledRuleIds.includes(rule.id));
+
+// Shannon entropy in bits per character
+const entropy = (value: string) => {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let bits = 0;
+  counts.forEach(count => {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  });
+  return bits;
+};
+
+const looksRandom = (value: string) =>
+  /\d/.test(value) && /[A-Za-z]/.test(value) && entropy(value) >= ENTROPY_THRESHOLD;
+
+const lineAround = (text: string, start: number, end: number) => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end);
+  return text.substring(lineStart, lineEnd === -1 ? text.length : lineEnd);
+};
+
+type Match = Pick<RedactionFinding, 'ruleId' | 'ruleName' | 'value' | 'start' | 'end'>;
+
+const scanText = (text: string, rules: RedactionRule[]): Match[] => {
+  const matches: Match[] = [];
+
+  for (const rule of rules) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern, 'g');
+    } catch {
+      continue;
+    }
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0] === '') {
+        regex.lastIndex++;
+        continue;
+      }
+      const value = match[1] ?? match[0];
+      if (rule.id === HIGH_ENTROPY_RULE_ID && !looksRandom(value)) continue;
+
+      const start = match.index + match[0].indexOf(value);
+      matches.push({ ruleId: rule.id, ruleName: rule.name, value, start, end: start + value.length });
+    }
+  }
+
+  // Where rules overlap the earlier, then longer, match wins
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: Match[] = [];
+  for (const match of matches) {
+    if (kept.length === 0 || match.start >= kept[kept.length - 1].end) kept.push(match);
+  }
+  return kept;
+};
+
+export const scanCommits = (commits: Commit[], rules: RedactionRule[]): RedactionFinding[] =>
+  commits.flatMap(commit =>
+    (['message', 'diff'] as const).flatMap(field =>
+      scanText(commit[field], rules).map(match => ({
+        ...match,
+        key: `${commit.id}:${field}:${match.ruleId}:${match.value}`,
+        commitId: commit.id,
+        field,
+        line: lineAround(commit[field], match.start, match.end)
+      }))
+    )
+  );
+
+export const maskFor = (ruleId: string) => `[REDACTED:${ruleId}]`;
+
+const maskText = (text: string, findings: RedactionFinding[]) =>
+  [...findings]
+    .sort((a, b) => b.start - a.start)
+    .reduce((masked, f) => masked.substring(0, f.start) + maskFor(f.ruleId) + masked.substring(f.end), text);
+
+// Copies of the commits with every finding masked unless it was allowed
+export const redactCommits = (
+  commits: Commit[],
+  findings: RedactionFinding[],
+  decisions: Record<string, RedactionDecision>
+): Commit[] => {
+  const masked = findings.filter(f => decisions[f.key] !== 'allow');
+  if (masked.length === 0) return commits;
+
+  return commits.map(commit => {
+    const own = masked.filter(f => f.commitId === commit.id);
+    if (own.length === 0) return commit;
+    return {
+      ...commit,
+      message: maskText(commit.message, own.filter(f => f.field === 'message')),
+      diff: maskText(commit.diff, own.filter(f => f.field === 'diff'))
+    };
+  });
+};
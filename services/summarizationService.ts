@@ -0,0 +1,160 @@
+import { Commit, InputReport, ModelSettings } from '../types';
+import { generateText } from './llmRegistry';
+
+// Fits a commit set into the model's context window. Commits are passed
+// verbatim while they fit; otherwise the largest ones are summarised first
+// (map step), file group by file group when a single commit is too large
+// for one call, and whatever still doesn't fit is dropped and reported.
+
+// Room left for the model's answer
+export const OUTPUT_RESERVE_TOKENS = 8192;
+
+// Instructions and commit header around the changes in a summary request
+const SUMMARY_PROMPT_OVERHEAD_TOKENS = 600;
+
+const SUMMARY_INSTRUCTION = "You summarise git commits for a technical writer. You are accurate and concise and never invent changes.";
+
+// Rough heuristic: about four characters per token for code and English
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const formatCommitBlock = (commit: Commit, index: number, changes: string, heading = 'Diff/Changes') => `
+--- COMMIT ${index + 1} ---
+Hash: ${commit.hash}
+Message: ${commit.message}
+Author: ${commit.author || 'Unknown'}
+Date: ${commit.date || 'Unknown'}
+${heading}:
+${changes}
+-----------------------
+`;
+
+export interface PreparedCommit {
+  block: string;
+  report: InputReport;
+}
+
+export interface PrepareOptions {
+  signal?: AbortSignal;
+  onStatus?: (message: string) => void;
+}
+
+// Diffs are "File: ..." sections separated by blank lines
+const splitFileSections = (diff: string): string[] => diff.split(/\n\n(?=File: )/);
+
+// Packs file sections into groups that fit the budget. A section that is
+// too large on its own is cut to the budget.
+const groupSections = (sections: string[], budgetTokens: number) => {
+  const groups: string[] = [];
+  let current = '';
+  let truncatedFiles = 0;
+
+  for (let section of sections) {
+    if (estimateTokens(section) > budgetTokens) {
+      section = section.substring(0, budgetTokens * 4) + '\n... (truncated)';
+      truncatedFiles++;
+    }
+    if (current && estimateTokens(current) + estimateTokens(section) > budgetTokens) {
+      groups.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${section}` : section;
+  }
+  if (current) groups.push(current);
+
+  return { groups, truncatedFiles };
+};
+
+const summarise = async (prompt: string, settings: ModelSettings, signal?: AbortSignal) => {
+  const text = await generateText({
+    systemInstruction: SUMMARY_INSTRUCTION,
+    prompt,
+    settings,
+    signal,
+    onChunk: () => {}
+  });
+  return text.trim();
+};
+
+const summariseCommit = async (
+  commit: Commit,
+  settings: ModelSettings,
+  options: PrepareOptions
+): Promise<{ summary: string; detail: string }> => {
+  const perCallBudget = Math.max(settings.contextTokens - OUTPUT_RESERVE_TOKENS - SUMMARY_PROMPT_OVERHEAD_TOKENS, 1024);
+  const { groups, truncatedFiles } = groupSections(splitFileSections(commit.diff), perCallBudget);
+
+  const parts: string[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const partLabel = groups.length > 1 ? ` (file group ${i + 1} of ${groups.length})` : '';
+    options.onStatus?.(`Summarising ${commit.hash}${partLabel}`);
+
+    parts.push(await summarise(`
+Summarise the following changes from commit ${commit.hash}${partLabel}.
+Cover what changed and why, new or changed public APIs, configuration and breaking changes.
+Keep file names and identifiers exact. Answer in at most 300 words of plain Markdown bullet points.
+
+Commit Message: ${commit.message}
+
+Changes:
+${groups[i]}
+`, settings, options.signal));
+  }
+
+  let detail = groups.length > 1 ? `Summarised in ${groups.length} file groups` : 'Summarised';
+  if (truncatedFiles > 0) {
+    detail += `; ${truncatedFiles} oversized file diff${truncatedFiles > 1 ? 's were' : ' was'} cut before summarising`;
+  }
+
+  return { summary: parts.join('\n\n'), detail };
+};
+
+export const prepareCommits = async (
+  commits: Commit[],
+  fixedPromptTokens: number,
+  settings: ModelSettings,
+  options: PrepareOptions = {}
+): Promise<{ prepared: PreparedCommit[]; budgetTokens: number }> => {
+  const budgetTokens = settings.contextTokens - OUTPUT_RESERVE_TOKENS - fixedPromptTokens;
+  if (budgetTokens <= 0) {
+    throw new Error("The context budget is too small for the documentation context alone. Increase it in the model settings.");
+  }
+
+  const prepared: PreparedCommit[] = commits.map((commit, i) => ({
+    block: formatCommitBlock(commit, i, commit.diff),
+    report: { commitId: commit.id, hash: commit.hash, message: commit.message, treatment: 'full' }
+  }));
+
+  const totalTokens = () => prepared
+    .filter(p => p.report.treatment !== 'dropped')
+    .reduce((sum, p) => sum + estimateTokens(p.block), 0);
+
+  // Largest commits first, so small ones keep their full diffs
+  const bySize = prepared
+    .map((p, i) => i)
+    .sort((a, b) => estimateTokens(prepared[b].block) - estimateTokens(prepared[a].block));
+
+  for (const i of bySize) {
+    if (totalTokens() <= budgetTokens) break;
+
+    const { summary, detail } = await summariseCommit(commits[i], settings, options);
+    prepared[i].block = formatCommitBlock(commits[i], i, summary, 'Summary of Changes');
+    prepared[i].report = { ...prepared[i].report, treatment: 'summarised', detail };
+  }
+
+  // Summaries change the sizes, so drop by what each block takes up now
+  const bySummarisedSize = prepared
+    .map((p, i) => i)
+    .sort((a, b) => estimateTokens(prepared[b].block) - estimateTokens(prepared[a].block));
+
+  for (const i of bySummarisedSize) {
+    if (totalTokens() <= budgetTokens) break;
+
+    prepared[i].report = {
+      ...prepared[i].report,
+      treatment: 'dropped',
+      detail: 'Did not fit the context budget even after summarising'
+    };
+  }
+
+  return { prepared, budgetTokens };
+};
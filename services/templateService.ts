@@ -0,0 +1,127 @@
+import { DocTemplate } from '../types';
+
+const STORAGE_KEY = 'commit2doc.templates';
+
+export const DEFAULT_TEMPLATE_ID = 'feature';
+
+export const BUILT_IN_TEMPLATES: DocTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Feature Documentation',
+    description: 'Comprehensive, developer-friendly documentation for a software feature.',
+    tone: 'Technical and thorough, aimed at developers using or maintaining the feature.',
+    sections: [
+      '**Title**: A clear, concise title for the feature/change.',
+      '**Overview**: High-level summary of what changed and why.',
+      '**Key Changes**: Bullet points of technical details.',
+      '**Usage**: Code examples or instructions on how to use the new feature.',
+      '**Configuration/Setup**: (If applicable)'
+    ],
+    instructions: '',
+    builtIn: true
+  },
+  {
+    id: 'changelog',
+    name: 'Changelog Entry (Keep a Changelog)',
+    description: 'A release entry following the keepachangelog.com 1.1.0 format.',
+    tone: 'Terse and factual. One line per change, written in the imperative mood.',
+    sections: [
+      '## [Unreleased] (or the version and date if known from the context)',
+      '### Added: new features',
+      '### Changed: changes in existing functionality',
+      '### Deprecated: soon-to-be removed features',
+      '### Removed: removed features',
+      '### Fixed: bug fixes',
+      '### Security: vulnerability fixes'
+    ],
+    instructions: 'Omit categories that have no entries. Do not add any prose outside the entry. Group related commits into a single line.',
+    builtIn: true
+  },
+  {
+    id: 'release-notes',
+    name: 'Customer-Facing Release Notes',
+    description: 'Release notes for end users and customers rather than engineers.',
+    tone: 'Friendly, benefit-oriented and free of jargon. Never mention file names, classes or internal tickets.',
+    sections: [
+      '**Headline**: One sentence describing the release.',
+      '**Highlights**: The most valuable improvements, each with a short explanation of the benefit.',
+      '**Improvements**: Smaller enhancements.',
+      '**Fixes**: Problems that no longer occur, described from the user\'s point of view.',
+      '**Action Required**: Anything users must do (omit if nothing).'
+    ],
+    instructions: 'Leave out purely internal changes such as refactors, tests and build tooling.',
+    builtIn: true
+  },
+  {
+    id: 'adr',
+    name: 'Architecture Decision Record',
+    description: 'An ADR capturing the decision the commits implement (Michael Nygard format).',
+    tone: 'Neutral and precise. Explain trade-offs honestly.',
+    sections: [
+      '**Title**: "ADR: <short decision statement>"',
+      '**Status**: Proposed, Accepted, Deprecated or Superseded (default to Accepted).',
+      '**Context**: The forces and constraints that led to the decision.',
+      '**Decision**: What was decided, in active voice ("We will ...").',
+      '**Consequences**: Positive and negative outcomes, and follow-up work.',
+      '**Alternatives Considered**: Options that were rejected and why (infer cautiously).'
+    ],
+    instructions: 'If the commits do not reveal the motivation, say so in Context instead of inventing one.',
+    builtIn: true
+  },
+  {
+    id: 'api-reference',
+    name: 'API Reference',
+    description: 'Reference documentation for the public API surface touched by the commits.',
+    tone: 'Exact and exhaustive. Prefer tables and code blocks over prose.',
+    sections: [
+      '**Title**: The module or API name.',
+      '**Endpoints / Functions**: One subsection per endpoint, function, class or method.',
+      '**Parameters**: Name, type, required, default and description for each.',
+      '**Returns / Responses**: Types, status codes and example payloads.',
+      '**Errors**: Error conditions and how they are reported.',
+      '**Examples**: Complete request/usage examples.'
+    ],
+    instructions: 'Document only what is visible in the diffs. Mark breaking changes explicitly.',
+    builtIn: true
+  },
+  {
+    id: 'runbook',
+    name: 'Operational Runbook',
+    description: 'A runbook for operating, deploying and troubleshooting the changed system.',
+    tone: 'Direct and step-by-step, for an on-call engineer under time pressure.',
+    sections: [
+      '**Title**: The service or component name.',
+      '**Summary**: What the component does and what changed.',
+      '**Deployment**: Numbered steps, including configuration and migrations.',
+      '**Monitoring**: Metrics, logs and alerts to watch.',
+      '**Troubleshooting**: Symptom, likely cause and remedy for each known failure mode.',
+      '**Rollback**: How to revert safely.'
+    ],
+    instructions: 'Use numbered lists for procedures and code blocks for every command.',
+    builtIn: true
+  }
+];
+
+export const loadCustomTemplates = (): DocTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load templates:", e);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: DocTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+export const createEmptyTemplate = (): DocTemplate => ({
+  id: crypto.randomUUID(),
+  name: '',
+  description: '',
+  tone: '',
+  sections: [],
+  instructions: '',
+  builtIn: false
+});
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StoredCredential } from '../types';
+import { matchCredential } from './vaultService';
+
+const credential = (id: string, providerId: string, urlPrefix: string, baseUrl = ''): StoredCredential =>
+  ({ id, name: id, providerId, token: `${id}-token`, baseUrl, urlPrefix });
+
+const matchId = (credentials: StoredCredential[], providerId: string, url: string) =>
+  matchCredential(credentials, providerId, url)?.id ?? null;
+
+test('a prefix does not match a look-alike host', () => {
+  const credentials = [credential('work', 'gitlab', 'https://gitlab.example.com/')];
+  assert.equal(matchId(credentials, 'gitlab', 'https://gitlab.example.com/team/app'), 'work');
+  assert.equal(matchId(credentials, 'gitlab', 'https://gitlab.example.com.attacker.net/a/b'), null);
+  assert.equal(matchId(credentials, 'gitlab', 'https://gitlab.example.community/a/b'), null);
+});
+
+test('a prefix matches whole path segments on the same scheme and port', () => {
+  const credentials = [credential('team', 'github', 'https://github.com/team')];
+  assert.equal(matchId(credentials, 'github', 'https://github.com/team/app'), 'team');
+  assert.equal(matchId(credentials, 'github', 'https://github.com/Team'), 'team');
+  assert.equal(matchId(credentials, 'github', 'https://github.com/teammates/app'), null);
+  assert.equal(matchId(credentials, 'github', 'http://github.com/team/app'), null);
+  assert.equal(matchId(credentials, 'github', 'https://github.com:8443/team/app'), null);
+});
+
+test('the longest matching prefix wins over shorter ones and the fallback', () => {
+  const credentials = [
+    credential('any', 'github', ''),
+    credential('org', 'github', 'https://github.com/org'),
+    credential('repo', 'github', 'https://github.com/org/app')
+  ];
+  assert.equal(matchId(credentials, 'github', 'https://github.com/org/app'), 'repo');
+  assert.equal(matchId(credentials, 'github', 'https://github.com/org/other'), 'org');
+  assert.equal(matchId(credentials, 'github', 'https://github.com/someone/else'), 'any');
+});
+
+test('a credential without a prefix only applies to its default host or base URL', () => {
+  const credentials = [credential('cloud', 'gitlab', ''), credential('self', 'azure', '', 'https://tfs.example.com/tfs/Coll')];
+  assert.equal(matchId(credentials, 'gitlab', 'https://gitlab.com/group/app'), 'cloud');
+  assert.equal(matchId(credentials, 'gitlab', 'https://gitlab.attacker.net/group/app'), null);
+  assert.equal(matchId(credentials, 'azure', 'https://tfs.example.com/tfs/Coll/Project/_git/app'), 'self');
+  assert.equal(matchId(credentials, 'azure', 'https://dev.azure.com/org/project'), null);
+});
+
+test('credentials of other providers and invalid URLs never match', () => {
+  const credentials = [credential('hub', 'github', '')];
+  assert.equal(matchId(credentials, 'gitlab', 'https://github.com/org/app'), null);
+  assert.equal(matchId(credentials, 'github', 'not a url'), null);
+});
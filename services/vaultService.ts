@@ -0,0 +1,161 @@
+import { StoredCredential } from '../types';
+
+// Host tokens encrypted at rest in localStorage. The key is derived from a
+// passphrase with PBKDF2 and the credential list is sealed with AES-GCM; the
+// passphrase itself is never stored, so a forgotten one means starting over.
+
+const STORAGE_KEY = 'commit2doc.vault';
+const ITERATIONS = 310000;
+
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+// An unlocked vault: what is needed to save it again without the passphrase
+export interface VaultSession {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readVaultFile = (): VaultFile | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+export const hasVault = () => localStorage.getItem(STORAGE_KEY) !== null;
+
+export const saveVault = async (session: VaultSession, credentials: StoredCredential[]) => {
+  // A fresh IV for every encryption under the same key
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    session.key,
+    new TextEncoder().encode(JSON.stringify(credentials))
+  );
+  const file: VaultFile = {
+    version: 1,
+    salt: toBase64(session.salt),
+    iv: toBase64(iv),
+    iterations: session.iterations,
+    data: toBase64(new Uint8Array(data))
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+};
+
+export const createVault = async (passphrase: string): Promise<VaultSession> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const session = { key: await deriveKey(passphrase, salt, ITERATIONS), salt, iterations: ITERATIONS };
+  await saveVault(session, []);
+  return session;
+};
+
+export const unlockVault = async (passphrase: string): Promise<{ session: VaultSession; credentials: StoredCredential[] }> => {
+  const file = readVaultFile();
+  if (!file) {
+    throw new Error("There is no credential vault yet.");
+  }
+
+  const salt = fromBase64(file.salt);
+  const key = await deriveKey(passphrase, salt, file.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.iv) }, key, fromBase64(file.data));
+  } catch {
+    // AES-GCM cannot tell a wrong key from tampered data; the key is far more likely
+    throw new Error("Wrong passphrase.");
+  }
+
+  return {
+    session: { key, salt, iterations: file.iterations },
+    credentials: JSON.parse(new TextDecoder().decode(plain))
+  };
+};
+
+export const deleteVault = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Hosted services a credential without a URL prefix stands for
+const DEFAULT_HOSTS: Record<string, string[]> = {
+  github: ['github.com'],
+  azure: ['dev.azure.com'],
+  gitlab: ['gitlab.com']
+};
+
+const parseUrl = (url: string): URL | null => {
+  try {
+    return new URL(url.trim());
+  } catch {
+    return null;
+  }
+};
+
+const pathOf = (url: URL) => url.pathname.replace(/\/+$/, '').toLowerCase();
+
+// Same scheme, host and port, and a path that is the prefix's path or below
+// it, so https://host/team does not match https://host.evil.net or /teammates
+const isUnder = (url: URL, prefix: URL) => {
+  const base = pathOf(prefix);
+  const path = pathOf(url);
+  return url.origin === prefix.origin && (path === base || path.startsWith(`${base}/`));
+};
+
+// Without a prefix a credential is only used on its provider's hosted service,
+// or on the instance its base URL points to
+const isDefaultFor = (url: URL, credential: StoredCredential) => {
+  const baseUrl = parseUrl(credential.baseUrl);
+  if (baseUrl) return url.origin === baseUrl.origin;
+  return url.protocol === 'https:' && (DEFAULT_HOSTS[credential.providerId] || []).includes(url.hostname);
+};
+
+// How specific a credential is for the URL, or null when it does not apply;
+// any matching prefix beats a credential without one
+const matchLength = (url: URL, credential: StoredCredential): number | null => {
+  if (!credential.urlPrefix.trim()) return isDefaultFor(url, credential) ? -1 : null;
+  const prefix = parseUrl(credential.urlPrefix);
+  return prefix && isUnder(url, prefix) ? pathOf(prefix).length : null;
+};
+
+// The credential with the longest URL prefix matching the repository; one
+// without a prefix is the fallback for its host
+export const matchCredential = (
+  credentials: StoredCredential[],
+  providerId: string,
+  repoUrl: string
+): StoredCredential | null => {
+  const url = parseUrl(repoUrl);
+  if (!url) return null;
+
+  const matches = credentials
+    .filter(c => c.providerId === providerId)
+    .map(credential => ({ credential, length: matchLength(url, credential) }))
+    .filter((m): m is { credential: StoredCredential; length: number } => m.length !== null)
+    .sort((a, b) => b.length - a.length);
+  return matches[0]?.credential || null;
+};
@@ -0,0 +1,77 @@
+import { Workspace } from '../types';
+import { WORKSPACE_STORE, withStore } from './database';
+
+// Marks exported files so imports can reject unrelated JSON
+const EXPORT_FORMAT = 'commit2doc-workspace';
+const EXPORT_VERSION = 1;
+
+export const createWorkspace = (name: string): Workspace => ({
+  id: crypto.randomUUID(),
+  name,
+  updatedAt: new Date().toISOString(),
+  commits: [],
+  pullRequests: [],
+  extraInfo: '',
+  setupInstructions: '',
+  previousDocContent: null,
+  previousDocName: '',
+  templateId: '',
+  generatedDoc: '',
+  versions: []
+});
+
+// Most recently edited first
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  try {
+    const workspaces = await withStore<Workspace[]>(WORKSPACE_STORE, 'readonly', store => store.getAll());
+    return workspaces.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error("Workspace Load Error:", error);
+    throw error;
+  }
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  try {
+    await withStore(WORKSPACE_STORE, 'readwrite', store => store.put(workspace));
+  } catch (error) {
+    console.error("Workspace Save Error:", error);
+    throw error;
+  }
+};
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  try {
+    await withStore(WORKSPACE_STORE, 'readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error("Workspace Delete Error:", error);
+    throw error;
+  }
+};
+
+export const exportWorkspace = (workspace: Workspace): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, workspace }, null, 2);
+
+// Imported workspaces get a fresh id so they never overwrite a local one
+export const parseWorkspaceFile = (text: string): Workspace => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (data?.format !== EXPORT_FORMAT || !data.workspace) {
+    throw new Error("The file is not a Commit2Doc workspace export.");
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error("The workspace was exported by a newer version of Commit2Doc.");
+  }
+
+  const imported = data.workspace as Partial<Workspace>;
+  return {
+    ...createWorkspace(imported.name || 'Imported workspace'),
+    ...imported,
+    id: crypto.randomUUID(),
+    updatedAt: new Date().toISOString()
+  };
+};
@@ -1,6 +1,9 @@
 export enum CommitSource {
   GITHUB = 'GITHUB',
   AZURE = 'AZURE',
+  GITLAB = 'GITLAB',
+  BITBUCKET = 'BITBUCKET',
+  LOCAL = 'LOCAL',
   MANUAL = 'MANUAL'
 }
 
@@ -14,10 +17,139 @@ export interface Commit {
   source: CommitSource;
 }
 
+// Title and description of a pull request whose commits were imported,
+// passed to the model alongside the commits themselves
+export interface PullRequestContext {
+  id: string;
+  title: string;
+  description: string;
+  url?: string;
+  source: CommitSource;
+}
+
+// The kind of document to produce from the commits
+export interface DocTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tone: string;
+  // Section outline, one entry per section, in order
+  sections: string[];
+  instructions: string;
+  builtIn: boolean;
+}
+
+// A host token kept in the encrypted credential vault
+export interface StoredCredential {
+  id: string;
+  name: string;
+  // Commit provider id, e.g. 'github' or 'azure'
+  providerId: string;
+  token: string;
+  baseUrl: string;
+  // Repositories whose URL starts with this are fetched with this credential
+  urlPrefix: string;
+}
+
+// A pattern for secrets or personal data that must be masked before commits
+// are sent to the model
+export interface RedactionRule {
+  id: string;
+  name: string;
+  // Regular expression source, matched globally
+  pattern: string;
+  builtIn: boolean;
+}
+
+export interface RedactionSettings {
+  customRules: RedactionRule[];
+  disabledRuleIds: string[];
+  // Refuse to generate while findings have not been masked or allowed explicitly
+  blockUnreviewed: boolean;
+}
+
 export interface GenerationConfig {
   extraInfo: string;
   setupInstructions: string;
   previousDocContent: string | null;
+  pullRequests: PullRequestContext[];
+  template: DocTemplate;
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'anthropic';
+
+// Which model backend generates the documentation, and how it is called
+export interface ModelSettings {
+  provider: LlmProviderId;
+  model: string;
+  // Only used by HTTP backends, e.g. a self-hosted Ollama or vLLM server
+  baseUrl: string;
+  apiKey: string;
+  temperature: number;
+  // Input tokens the model accepts; larger commit sets are summarised to fit
+  contextTokens: number;
+}
+
+// How a commit made it into the final prompt
+export type InputTreatment = 'full' | 'summarised' | 'dropped';
+
+export interface InputReport {
+  commitId: string;
+  hash: string;
+  message: string;
+  treatment: InputTreatment;
+  detail?: string;
+}
+
+export interface GenerationReport {
+  inputs: InputReport[];
+  promptTokens: number;
+  budgetTokens: number;
+}
+
+// A state of the generated document the user can step back to
+export interface DocVersion {
+  id: string;
+  markdown: string;
+  // What produced it, e.g. "Generated" or the refinement instruction
+  label: string;
+  createdAt: string;
+}
+
+// Everything needed to pick up a documentation job after a reload. Model
+// settings stay per browser so API keys never end up in an exported file.
+export interface Workspace {
+  id: string;
+  name: string;
+  updatedAt: string;
+  commits: Commit[];
+  pullRequests: PullRequestContext[];
+  extraInfo: string;
+  setupInstructions: string;
+  previousDocContent: string | null;
+  previousDocName: string;
+  templateId: string;
+  generatedDoc: string;
+  versions: DocVersion[];
+}
+
+// One click of "Generate Documentation": what went in and what came out
+export interface GenerationRun {
+  id: string;
+  workspaceId: string;
+  createdAt: string;
+  commitHashes: string[];
+  pullRequestIds: string[];
+  templateId: string;
+  templateName: string;
+  extraInfo: string;
+  setupInstructions: string;
+  previousDocName: string;
+  // Settings without the API key
+  model: Omit<ModelSettings, 'apiKey'>;
+  markdown: string;
+  report: GenerationReport | null;
+  cancelled: boolean;
 }
 
 export interface DocumentationResult {
@@ -25,8 +157,10 @@ export interface DocumentationResult {
   generatedAt: string;
 }
 
+// A notification shown in the corner until dismissed or timed out
 export interface ToastMessage {
   id: string;
   type: 'success' | 'error' | 'info';
+  title?: string;
   text: string;
 }
\ No newline at end of file
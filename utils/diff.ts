@@ -0,0 +1,220 @@
+// Line-based diffing (Myers' O(ND) algorithm) and unified patch formatting.
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  line: string;
+}
+
+// Matches the status names GitHub uses in its commit files list
+export type FileChangeStatus = 'added' | 'modified' | 'removed' | 'renamed';
+
+export const BINARY_PLACEHOLDER = '[Binary or Large File]';
+
+export const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  // A trailing newline does not start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+interface Snake {
+  // Where the middle snake starts and ends, relative to the compared ranges
+  x: number;
+  y: number;
+  u: number;
+  v: number;
+}
+
+// Finds the middle snake of the shortest edit script between a[aLo, aHi) and
+// b[bLo, bHi) by running Myers' search from both ends until the paths overlap.
+// Only the two frontiers are kept, so memory stays linear in the input size.
+const middleSnake = (a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): Snake => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x reached per diagonal, from the start and from the end
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]))
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      // Diagonal k from the start is diagonal delta - k from the end
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+        return { x: startX, y: startY, u: x, v: y };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]))
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+        return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+      }
+    }
+  }
+
+  // Unreachable: the searches always meet by d = ceil((n + m) / 2)
+  return { x: 0, y: 0, u: 0, v: 0 };
+};
+
+const diffRange = (a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, ops: DiffOp[]) => {
+  // Common prefix and suffix need no search
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    ops.push({ type: 'equal', line: a[aLo] });
+    aLo++;
+    bLo++;
+  }
+  let suffix = 0;
+  while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) {
+    suffix++;
+  }
+  aHi -= suffix;
+  bHi -= suffix;
+
+  if (aLo === aHi) {
+    for (let j = bLo; j < bHi; j++) ops.push({ type: 'insert', line: b[j] });
+  } else if (bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) ops.push({ type: 'delete', line: a[i] });
+  } else {
+    // Both halves have a shorter edit script, so the recursion ends
+    const snake = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    diffRange(a, aLo, aLo + snake.x, b, bLo, bLo + snake.y, ops);
+    for (let i = aLo + snake.x; i < aLo + snake.u; i++) ops.push({ type: 'equal', line: a[i] });
+    diffRange(a, aLo + snake.u, aHi, b, bLo + snake.v, bHi, ops);
+  }
+
+  for (let i = aHi; i < aHi + suffix; i++) ops.push({ type: 'equal', line: a[i] });
+};
+
+// Linear-space variant of Myers' algorithm: divide and conquer on the middle
+// snake instead of storing every frontier, which would take O((N+M)·D) memory
+export const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+};
+
+// Produces the hunks of a unified diff ("@@ -a,b +c,d @@" followed by
+// context/removed/added lines), without file headers, the same shape as
+// the `patch` field GitHub returns for a changed file.
+export const createUnifiedPatch = (oldText: string, newText: string, context = 3): string => {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks: string[] = [];
+
+  let i = 0;
+  while (i < ops.length) {
+    // Skip to the next change
+    while (i < ops.length && ops[i].type === 'equal') i++;
+    if (i >= ops.length) break;
+
+    // Extend the hunk until a run of unchanged lines is long enough to split on
+    const start = Math.max(0, i - context);
+    let end = i;
+    while (end < ops.length) {
+      if (ops[end].type !== 'equal') {
+        end++;
+        continue;
+      }
+      let run = end;
+      while (run < ops.length && ops[run].type === 'equal') run++;
+      if (run >= ops.length || run - end > context * 2) {
+        end = Math.min(run, end + context);
+        break;
+      }
+      end = run;
+    }
+
+    // Line numbers of the hunk start in the old and new file
+    let oldLine = 1;
+    let newLine = 1;
+    for (let j = 0; j < start; j++) {
+      if (ops[j].type !== 'insert') oldLine++;
+      if (ops[j].type !== 'delete') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let j = start; j < end; j++) {
+      const op = ops[j];
+      if (op.type === 'equal') {
+        body.push(' ' + op.line);
+        oldCount++;
+        newCount++;
+      } else if (op.type === 'delete') {
+        body.push('-' + op.line);
+        oldCount++;
+      } else {
+        body.push('+' + op.line);
+        newCount++;
+      }
+    }
+
+    const oldStart = oldCount === 0 ? oldLine - 1 : oldLine;
+    const newStart = newCount === 0 ? newLine - 1 : newLine;
+    hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n${body.join('\n')}`);
+    i = end;
+  }
+
+  return hunks.join('\n');
+};
+
+// One file's entry in a commit's diff, as handed to the model
+export const formatFileDiff = (filename: string, status: string, patch?: string): string =>
+  `File: ${filename} (${status})\n${patch || BINARY_PLACEHOLDER}`;
+
+// Converts raw `git diff` / `git format-patch` output (one or more
+// "diff --git a/... b/..." sections) into the per-file shape above.
+export const formatGitDiff = (raw: string): string => {
+  const sections = raw.split(/^(?=diff --git )/m).filter(s => s.startsWith('diff --git '));
+
+  return sections.map(section => {
+    const lines = section.replace(/\n+$/, '').split('\n');
+    const header = lines[0].match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+    let filename = header ? header[2] : lines[0].substring('diff --git '.length);
+    let status: FileChangeStatus = 'modified';
+
+    const hunkStart = lines.findIndex(l => l.startsWith('@@'));
+    const meta = hunkStart === -1 ? lines.slice(1) : lines.slice(1, hunkStart);
+
+    for (const line of meta) {
+      if (line.startsWith('new file mode')) status = 'added';
+      else if (line.startsWith('deleted file mode')) status = 'removed';
+      else if (line.startsWith('rename to ')) {
+        status = 'renamed';
+        filename = line.substring('rename to '.length);
+      }
+    }
+
+    const patch = hunkStart === -1 ? undefined : lines.slice(hunkStart).join('\n');
+    return formatFileDiff(filename, status, patch);
+  }).join('\n\n');
+};
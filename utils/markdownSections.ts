@@ -0,0 +1,116 @@
+// Splits Markdown documents at their headings so an updated document can be
+// compared with, and merged back into, the original one section at a time.
+
+import { splitLines } from './diff';
+
+export interface DocSection {
+  // Heading text plus an occurrence counter, stable across both documents
+  key: string;
+  heading: string;
+  text: string;
+}
+
+export type SectionChangeStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface SectionChange {
+  key: string;
+  heading: string;
+  status: SectionChangeStatus;
+  original?: string;
+  updated?: string;
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^ {0,3}(```|~~~)/;
+
+// The text before the first heading
+const PREAMBLE_HEADING = '(Introduction)';
+
+export const splitSections = (markdown: string): DocSection[] => {
+  const sections: DocSection[] = [];
+  const occurrences = new Map<string, number>();
+  let heading = PREAMBLE_HEADING;
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      const name = heading.toLowerCase();
+      const count = occurrences.get(name) || 0;
+      occurrences.set(name, count + 1);
+      sections.push({ key: `${name}#${count}`, heading, text });
+    }
+  };
+
+  for (const line of splitLines(markdown)) {
+    // Lines starting with # inside code blocks are comments, not headings
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+    }
+
+    const headingMatch = !fence && !fenceMatch ? line.match(HEADING_PATTERN) : null;
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[2];
+      lines = [];
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+};
+
+// Pairs sections by heading, keeping the order of the updated document and
+// placing removed sections where they stood in the original
+export const compareSections = (original: string, updated: string): SectionChange[] => {
+  const before = splitSections(original);
+  const after = splitSections(updated);
+  const beforeIndex = new Map(before.map((s, i) => [s.key, i]));
+  const matched = new Set(after.map(s => s.key).filter(key => beforeIndex.has(key)));
+  const changes: SectionChange[] = [];
+  let next = 0;
+
+  const flushRemoved = (until: number) => {
+    for (; next < until; next++) {
+      const section = before[next];
+      if (!matched.has(section.key)) {
+        changes.push({ key: section.key, heading: section.heading, status: 'removed', original: section.text });
+      }
+    }
+  };
+
+  for (const section of after) {
+    const index = beforeIndex.get(section.key);
+    if (index === undefined) {
+      changes.push({ key: section.key, heading: section.heading, status: 'added', updated: section.text });
+      continue;
+    }
+    flushRemoved(index);
+    next = Math.max(next, index + 1);
+    const previous = before[index];
+    changes.push({
+      key: section.key,
+      heading: section.heading,
+      status: previous.text === section.text ? 'unchanged' : 'modified',
+      original: previous.text,
+      updated: section.text
+    });
+  }
+  flushRemoved(before.length);
+
+  return changes;
+};
+
+// Rebuilds the document, taking the original text for every rejected change
+export const mergeSections = (changes: SectionChange[], rejected: Set<string>): string => {
+  const parts: string[] = [];
+  for (const change of changes) {
+    const text = rejected.has(change.key) ? change.original : change.updated;
+    if (text) parts.push(text);
+  }
+  return parts.join('\n\n') + '\n';
+};
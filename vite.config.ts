@@ -11,8 +11,8 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only the backend's address; model keys and host tokens stay on the server
+        __COMMIT2DOC_BACKEND_URL__: JSON.stringify(env.COMMIT2DOC_BACKEND_URL || '')
       },
       resolve: {
         alias: {